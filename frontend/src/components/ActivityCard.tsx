@@ -1,6 +1,6 @@
 // src/components/ActivityCard.tsx
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { formatDistanceToNow } from "date-fns";
 import {
   CalendarIcon,
@@ -10,6 +10,8 @@ import {
   Globe,
   UserPlus,
   Clock, // <-- Import Clock icon for the pending state
+  Link2,
+  Star,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -21,7 +23,8 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Activity, useActivityStore } from "../utils/activityStore";
+import { Activity, useActivityStore, getRsvpCounts, getRsvpStatus, canReviewActivity, averageRating, isParticipant, isPending, getWaitlistPosition } from "../utils/activityStore";
+import { useUserProfileStore } from "../utils/userProfileStore";
 import { useUserGuardContext } from "app";
 import { toast } from "sonner";
 import { useFriendsStore } from "../utils/friendsStore";
@@ -34,6 +37,11 @@ import {
 import { useNavigate } from "react-router-dom";
 import { Timestamp } from "firebase/firestore";
 import { Edit as EditIcon } from "lucide-react";
+import CancelledBanner from "components/CancelledBanner";
+import ReviewDialog from "components/ReviewDialog";
+import StarRating from "components/StarRating";
+import ActivityCover from "components/ActivityCover";
+import CategoryBadge from "components/CategoryBadge";
 
 
 interface Props {
@@ -44,18 +52,26 @@ export const ActivityCard: React.FC<Props> = ({ activity }) => {
   const navigate = useNavigate();
   const { user } = useUserGuardContext();
   
-  // Get all necessary functions from the store, including isPending
-  const { requestToJoinActivity, leaveActivity, isParticipant, isPending } = useActivityStore();
+  // Store actions; membership checks come from the activity prop below
+  const { requestToJoinActivity, leaveActivity, joinWaitlist } = useActivityStore();
   const { isFriend, sendFriendRequest } = useFriendsStore();
+  const hostRating = useUserProfileStore((state) => state.hostRatings[activity.createdBy.userId]);
+  const loadHostRating = useUserProfileStore((state) => state.loadHostRating);
   
   // A single state for join/leave/request actions
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [sendingFriendRequest, setSendingFriendRequest] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
 
-  // The component now fully relies on the 'activity' prop from the store.
-  // No more local state or onSnapshot listeners needed here.
-  const userIsParticipant = isParticipant(activity.id, user.uid);
-  const userIsPending = isPending(activity.id, user.uid); // <-- Check if the user's request is pending
+  useEffect(() => {
+    loadHostRating(activity.createdBy.userId);
+  }, [activity.createdBy.userId, loadHostRating]);
+
+  // The component fully relies on the 'activity' prop: cards also render
+  // search results and map popovers that aren't part of the store's current page.
+  const userIsParticipant = isParticipant(activity, user.uid);
+  const userIsPending = isPending(activity, user.uid); // <-- Check if the user's request is pending
+  const waitlistPosition = getWaitlistPosition(activity, user.uid);
   const userIsCreator = activity.createdBy.userId === user.uid;
   const creatorIsFriend = isFriend(activity.createdBy.userId);
   const canViewActivity = activity.isPublic || userIsCreator || creatorIsFriend;
@@ -91,6 +107,19 @@ export const ActivityCard: React.FC<Props> = ({ activity }) => {
     }
   };
 
+  const handleJoinWaitlist = async () => {
+    if (isSubmitting) return;
+    try {
+      setIsSubmitting(true);
+      await joinWaitlist(activity.id, user.uid);
+      toast.success("You're on the waitlist!");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to join waitlist");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleLeave = async () => {
     if (isSubmitting) return;
     try {
@@ -110,18 +139,34 @@ export const ActivityCard: React.FC<Props> = ({ activity }) => {
   const formattedTime = dateObject.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true });
   const timeUntil = formatDistanceToNow(dateObject, { addSuffix: true });
 
-  const getCategoryColorClass = (category: string) => {
-    // Your color logic here...
-    return "bg-primary/10 text-primary hover:bg-primary/20";
-  };
   const categoryBorder = "border-primary/30"; // Your border logic here...
 
   const viewActivityDetails = () => navigate(`/activity-details?id=${activity.id}`);
   const participantCount = activity.participantIds.length;
+  const rsvpCounts = getRsvpCounts(activity);
+  const myRsvp = getRsvpStatus(activity, user.uid);
   const pendingCount = activity.pendingParticipantIds?.length ?? 0;
+  const activityRating = averageRating(activity.ratingSum, activity.ratingCount);
+  const hasReviewed = (activity.reviewerIds ?? []).includes(user.uid);
 
   // --- UPDATED ACTION BUTTON LOGIC ---
   const renderActionButton = () => {
+    // 0. Cancelled activities can't be joined or left
+    if (activity.status === "cancelled" && !userIsCreator) {
+      return (
+        <Button size="sm" variant="secondary" disabled>
+          Cancelled
+        </Button>
+      );
+    }
+    // 0b. Finished activities: participants are asked for a review instead of leaving
+    if (activity.archived && !userIsCreator) {
+      return canReviewActivity(activity, user.uid) ? (
+        <Button size="sm" variant={hasReviewed ? "outline" : "default"} onClick={(e) => { e.stopPropagation(); setReviewOpen(true); }}>
+          <Star className="h-4 w-4 mr-1" />{hasReviewed ? "Edit Review" : "Rate"}
+        </Button>
+      ) : null;
+    }
     // 1. Creator's view
     if (userIsCreator) {
       return (
@@ -150,9 +195,30 @@ export const ActivityCard: React.FC<Props> = ({ activity }) => {
         </Button>
       );
     }
-    // 4. Non-participant's view
-    if (canViewActivity) {
+    // 3b. Waitlisted user's view
+    if (waitlistPosition !== null) {
+      return (
+        <Button variant="outline" size="sm" disabled>
+          <Clock className="h-4 w-4 mr-2" />
+          Waitlist #{waitlistPosition}
+        </Button>
+      );
+    }
+    // 4. Non-participant's view (unlisted activities are joined through their invite link)
+    if (canViewActivity && !activity.unlisted) {
       const isFull = !!activity.maxParticipants && participantCount >= activity.maxParticipants;
+      if (isFull && !activity.requiresApproval) {
+        return (
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={(e) => { e.stopPropagation(); handleJoinWaitlist(); }}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Submitting..." : "Join Waitlist"}
+          </Button>
+        );
+      }
       return (
         <Button 
           size="sm" 
@@ -180,8 +246,9 @@ export const ActivityCard: React.FC<Props> = ({ activity }) => {
 
   return (
     <Card className={`w-full min-w-0 flex flex-col h-full rounded-3xl overflow-hidden hover:shadow-md transition-all duration-300 cursor-pointer border-2 ${categoryBorder}`} onClick={viewActivityDetails}>
-      <div className="flex justify-end pt-4 px-4">
-        <Badge className={getCategoryColorClass(activity.category)}>{activity.category}</Badge>
+      <div className="relative">
+        <ActivityCover activity={activity} className="h-32" sizes="(min-width: 768px) 33vw, 100vw" />
+        <CategoryBadge category={activity.category} className="absolute top-3 right-3" />
       </div>
 
       <CardHeader className="p-4 pb-0">
@@ -189,13 +256,13 @@ export const ActivityCard: React.FC<Props> = ({ activity }) => {
           <CardTitle className="text-xl truncate flex-1">{activity.title}</CardTitle>
           <TooltipProvider>
             <Tooltip>
-              <TooltipTrigger asChild><Badge variant="outline" className="ml-2 flex gap-1 items-center flex-shrink-0">{activity.isPublic ? <><Globe className="h-3 w-3" /><span>Public</span></> : <><Lock className="h-3 w-3" /><span>Friends Only</span></>}</Badge></TooltipTrigger>
-              <TooltipContent>{activity.isPublic ? "Anyone can see this activity" : "Only friends can see this activity"}</TooltipContent>
+              <TooltipTrigger asChild><Badge variant="outline" className="ml-2 flex gap-1 items-center flex-shrink-0">{activity.unlisted ? <><Link2 className="h-3 w-3" /><span>Unlisted</span></> : activity.isPublic ? <><Globe className="h-3 w-3" /><span>Public</span></> : <><Lock className="h-3 w-3" /><span>Friends Only</span></>}</Badge></TooltipTrigger>
+              <TooltipContent>{activity.unlisted ? "Only people with an invite link can see this activity" : activity.isPublic ? "Anyone can see this activity" : "Only friends can see this activity"}</TooltipContent>
             </Tooltip>
           </TooltipProvider>
         </div>
         <CardDescription className="mt-1 flex items-center justify-between text-sm w-full min-w-0">
-          <span className="truncate">Created by {activity.createdBy.displayName ?? "Unknown"}</span>
+          <span className="truncate flex items-center gap-1">Created by {activity.createdBy.displayName ?? "Unknown"}{hostRating && (<span className="flex items-center gap-0.5 text-xs flex-shrink-0"><Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />{hostRating.average.toFixed(1)}</span>)}</span>
           {!userIsCreator && !creatorIsFriend && (
             <Button variant="ghost" size="sm" className="text-xs h-7 px-2 flex-shrink-0" onClick={(e) => { e.stopPropagation(); handleSendFriendRequest(); }} disabled={sendingFriendRequest}>
               <UserPlus className="h-3 w-3 mr-1" />{sendingFriendRequest ? "Sending..." : "Add Friend"}
@@ -205,18 +272,30 @@ export const ActivityCard: React.FC<Props> = ({ activity }) => {
       </CardHeader>
 
       <CardContent className="p-4 flex-grow flex flex-col">
+        {activity.status === "cancelled" && <CancelledBanner reason={activity.cancellationReason} className="mb-3" />}
         <p className="text-sm text-muted-foreground mb-4 line-clamp-3">{activity.description}</p>
+        {activity.tags && activity.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {activity.tags.map((tag) => (<Badge key={tag} variant="secondary" className="cursor-pointer text-xs" onClick={(e) => { e.stopPropagation(); navigate(`/feed?tag=${encodeURIComponent(tag)}`); }}>#{tag}</Badge>))}
+          </div>
+        )}
         <div className="space-y-2 mt-auto">
-          <div className="flex items-center text-sm gap-2"><CalendarIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" /><span className="truncate">{`${formattedDate} at ${formattedTime}`}</span></div>
+          <div className="flex items-center text-sm gap-2"><CalendarIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" /><span className="truncate">{activity.status === "scheduling" ? `Date TBD · voting on ${activity.dateOptions?.length ?? 0} options` : `${formattedDate} at ${formattedTime}`}</span></div>
           <div className="flex items-center text-sm gap-2"><MapPinIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" /><span className="truncate">{activity.location}</span></div>
-          <div className="flex items-center text-sm gap-2"><UsersIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" /><span>{participantCount} participant{participantCount !== 1 && "s"}</span>{activity.maxParticipants && (<span className="text-muted-foreground">(max {activity.maxParticipants})</span>)}</div>
+          <div className="flex items-center text-sm gap-2"><UsersIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" /><span>{participantCount} going</span>{activity.maxParticipants && (<span className="text-muted-foreground">(max {activity.maxParticipants})</span>)}{rsvpCounts.maybe > 0 && (<span className="text-muted-foreground">· {rsvpCounts.maybe} maybe</span>)}{rsvpCounts.declined > 0 && (<span className="text-muted-foreground">· {rsvpCounts.declined} can't go</span>)}</div>
+          {activity.archived && activityRating !== null && (<div className="flex items-center text-sm gap-2"><StarRating value={activityRating} size="sm" /><span className="text-muted-foreground">{activityRating.toFixed(1)} ({activity.ratingCount})</span></div>)}
+          {myRsvp && myRsvp !== "going" && (<div className="text-xs text-muted-foreground">You answered: {myRsvp === "maybe" ? "Maybe" : "Can't go"}</div>)}
         </div>
       </CardContent>
 
       <CardFooter className="p-4 pt-0 flex justify-between items-center gap-2">
-        <span className="text-xs text-muted-foreground">{timeUntil}</span>
+        <span className="text-xs text-muted-foreground">{activity.status === "scheduling" ? "Date poll open" : timeUntil}</span>
         {renderActionButton()}
       </CardFooter>
+      {/* Dialog events bubble through the portal; keep them from opening the details page */}
+      <div onClick={(e) => e.stopPropagation()}>
+        <ReviewDialog activity={activity} open={reviewOpen} onOpenChange={setReviewOpen} />
+      </div>
     </Card>
   );
 };
\ No newline at end of file
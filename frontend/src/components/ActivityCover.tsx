@@ -0,0 +1,66 @@
+// src/components/ActivityCover.tsx
+
+import React from "react";
+import { Bike, Clapperboard, ChefHat, Gamepad2, Mountain, Music, Plane, Sparkles, Users, UtensilsCrossed, type LucideIcon } from "lucide-react";
+import { Activity } from "../utils/activityStore";
+
+interface CoverArtwork {
+  label: string;
+  gradient: string;
+  icon: LucideIcon;
+}
+
+/** Built-in artwork hosts can pick; each category defaults to the preset with its name */
+export const COVER_PRESETS: Record<string, CoverArtwork> = {
+  sports: { label: "Sports", gradient: "from-emerald-400 to-teal-600", icon: Bike },
+  dining: { label: "Dining", gradient: "from-orange-300 to-rose-500", icon: UtensilsCrossed },
+  hiking: { label: "Hiking", gradient: "from-lime-400 to-green-700", icon: Mountain },
+  gaming: { label: "Gaming", gradient: "from-violet-500 to-indigo-700", icon: Gamepad2 },
+  movies: { label: "Movies", gradient: "from-slate-600 to-gray-900", icon: Clapperboard },
+  travel: { label: "Travel", gradient: "from-sky-400 to-blue-600", icon: Plane },
+  music: { label: "Music", gradient: "from-fuchsia-400 to-purple-700", icon: Music },
+  cooking: { label: "Cooking", gradient: "from-amber-300 to-orange-600", icon: ChefHat },
+  hangout: { label: "Hangout", gradient: "from-pink-300 to-rose-500", icon: Users },
+  confetti: { label: "Confetti", gradient: "from-yellow-300 via-pink-400 to-sky-400", icon: Sparkles },
+};
+
+const FALLBACK_PRESET = "confetti";
+
+/** The preset shown when there's no uploaded cover */
+export const resolveCoverPreset = (activity: Pick<Activity, "coverPreset" | "category">) => {
+  if (activity.coverPreset && COVER_PRESETS[activity.coverPreset]) return activity.coverPreset;
+  const byCategory = activity.category?.toLowerCase();
+  return byCategory && COVER_PRESETS[byCategory] ? byCategory : FALLBACK_PRESET;
+};
+
+interface Props {
+  activity: Pick<Activity, "coverImage" | "coverPreset" | "category" | "title">;
+  /** Height and rounding come from the caller */
+  className?: string;
+  /** `sizes` attribute for the uploaded image's srcSet */
+  sizes?: string;
+}
+
+/** Uploaded cover (responsive) or the preset / category artwork */
+export default function ActivityCover({ activity, className, sizes = "100vw" }: Props) {
+  if (activity.coverImage) {
+    const { small, medium, large } = activity.coverImage;
+    return (
+      <img
+        src={medium}
+        srcSet={`${small} 480w, ${medium} 960w, ${large} 1600w`}
+        sizes={sizes}
+        alt={activity.title}
+        loading="lazy"
+        className={`w-full object-cover ${className ?? ""}`}
+      />
+    );
+  }
+
+  const { gradient, icon: Icon } = COVER_PRESETS[resolveCoverPreset(activity)];
+  return (
+    <div className={`w-full flex items-center justify-center bg-gradient-to-br ${gradient} ${className ?? ""}`} aria-hidden="true">
+      <Icon className="h-12 w-12 text-white/80" />
+    </div>
+  );
+}
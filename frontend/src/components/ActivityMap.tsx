@@ -0,0 +1,169 @@
+// src/components/ActivityMap.tsx
+
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import {
+  GoogleMap,
+  useJsApiLoader,
+  MarkerF,
+  MarkerClustererF,
+  CircleF,
+  InfoWindowF,
+} from "@react-google-maps/api";
+import { googleMapsApiKey } from "@/app/auth/firebase";
+import { Button } from "@/components/ui/button";
+import { Activity } from "../utils/activityStore";
+import { ActivityCard } from "components/ActivityCard";
+import { getDistance } from "../utils/geo";
+
+// Must match LocationAutocomplete, the loader refuses a second set of options
+const libraries = ["places"] as ("places")[];
+
+const DEFAULT_CENTER = { lat: 52.52, lng: 13.405 };
+
+interface Props {
+  /** Activities to plot (already filtered by the Feed) */
+  activities: Activity[];
+  /** Current location filter, drawn as a circle when set */
+  center?: { lat: number; lng: number } | null;
+  radiusKm?: number;
+  /** Called with the visible map area when the user clicks "Search this area" */
+  onSearchArea?: (area: { lat: number; lng: number; radiusKm: number }) => void;
+}
+
+export default function ActivityMap({ activities, center, radiusKm = 10, onSearchArea }: Props) {
+  const { isLoaded, loadError } = useJsApiLoader({
+    googleMapsApiKey,
+    libraries,
+  });
+
+  const mapRef = useRef<google.maps.Map | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hasPanned, setHasPanned] = useState(false);
+
+  // Activities without real coordinates are stored as 0/0
+  const mappable = useMemo(
+    () => activities.filter((a) => a.latitude !== 0 || a.longitude !== 0),
+    [activities]
+  );
+  const selected = mappable.find((a) => a.id === selectedId) ?? null;
+
+  const initialCenter = useMemo(
+    () =>
+      center ??
+      (mappable[0] ? { lat: mappable[0].latitude, lng: mappable[0].longitude } : DEFAULT_CENTER),
+    // Only recentre when the location filter changes; otherwise the user controls the viewport
+    [center]
+  );
+
+  const handleLoad = useCallback(
+    (map: google.maps.Map) => {
+      mapRef.current = map;
+      // Without a city filter, frame every pin
+      if (!center && mappable.length > 1) {
+        const bounds = new google.maps.LatLngBounds();
+        mappable.forEach((a) => bounds.extend({ lat: a.latitude, lng: a.longitude }));
+        map.fitBounds(bounds);
+      }
+    },
+    []
+  );
+
+  const handleSearchArea = () => {
+    const map = mapRef.current;
+    const mapCenter = map?.getCenter();
+    const bounds = map?.getBounds();
+    if (!mapCenter || !bounds || !onSearchArea) return;
+
+    // Radius of the circle that fits inside the visible area
+    const ne = bounds.getNorthEast();
+    const halfHeight = getDistance(mapCenter.lat(), mapCenter.lng(), ne.lat(), mapCenter.lng());
+    const halfWidth = getDistance(mapCenter.lat(), mapCenter.lng(), mapCenter.lat(), ne.lng());
+
+    onSearchArea({
+      lat: mapCenter.lat(),
+      lng: mapCenter.lng(),
+      radiusKm: Math.max(1, Math.round(Math.min(halfHeight, halfWidth))),
+    });
+    setHasPanned(false);
+  };
+
+  if (loadError) {
+    return (
+      <p className="text-red-500">
+        Error loading Google Maps API. Please check your API key.
+      </p>
+    );
+  }
+
+  if (!isLoaded) {
+    return (
+      <div className="h-[600px] flex items-center justify-center rounded-md border">
+        <p className="text-muted-foreground">Loading map...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative h-[600px] rounded-md overflow-hidden border">
+      <GoogleMap
+        mapContainerClassName="h-full w-full"
+        center={initialCenter}
+        zoom={center ? 12 : 10}
+        onLoad={handleLoad}
+        onDragEnd={() => setHasPanned(true)}
+        onClick={() => setSelectedId(null)}
+        options={{ streetViewControl: false, mapTypeControl: false, fullscreenControl: false }}
+      >
+        <MarkerClustererF>
+          {(clusterer) => (
+            <>
+              {mappable.map((activity) => (
+                <MarkerF
+                  key={activity.id}
+                  position={{ lat: activity.latitude, lng: activity.longitude }}
+                  title={activity.title}
+                  clusterer={clusterer}
+                  onClick={() => setSelectedId(activity.id)}
+                />
+              ))}
+            </>
+          )}
+        </MarkerClustererF>
+
+        {center && (
+          <CircleF
+            center={center}
+            radius={radiusKm * 1000}
+            options={{
+              strokeColor: "#6366f1",
+              strokeOpacity: 0.6,
+              strokeWeight: 2,
+              fillColor: "#6366f1",
+              fillOpacity: 0.08,
+              clickable: false,
+            }}
+          />
+        )}
+
+        {selected && (
+          <InfoWindowF
+            position={{ lat: selected.latitude, lng: selected.longitude }}
+            onCloseClick={() => setSelectedId(null)}
+          >
+            <div className="w-72">
+              <ActivityCard activity={selected} />
+            </div>
+          </InfoWindowF>
+        )}
+      </GoogleMap>
+
+      {hasPanned && onSearchArea && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2">
+          <Button size="sm" className="shadow-md rounded-full" onClick={handleSearchArea}>
+            Search this area
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import React, { useEffect, useState } from "react";
 import { Toaster } from "sonner";
 import { UserProfileInitializer } from "./UserProfileInitializer";
-import { useActivityStore } from "../utils/activityStore";
 import { useCurrentUser } from "app";
 import { useFriendsStore } from "../utils/friendsStore";
+import { useInvitationStore } from "../utils/invitationStore";
+import { useCategoryStore } from "../utils/categoryStore";
 import { firebaseApp, realtimeDb } from "../utils/firebase";
 
 // Import but don't use the firebase module to ensure it's initialized
@@ -58,23 +59,6 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   }, []);
   
-  // Initialize activity store listener when the user changes
-  useEffect(() => {
-    if (!user) return;
-    
-    console.log('Initializing activity store with user:', user.uid, user.displayName || 'Unknown');
-    
-    // Initialize with user ID to filter activities based on privacy
-    const friendIds = useFriendsStore.getState().friends; // or however you store them
-    const unsubscribe = useActivityStore.getState().initializeListener(user.uid, friendIds);
-
-    
-    return () => {
-      // Clean up listener when component unmounts or user changes
-      unsubscribe();
-    };
-  }, [user]);
-  
   // Initialize friends store listener when the user changes
   useEffect(() => {
     if (!user) return;
@@ -88,6 +72,20 @@ export function AppProvider({ children }: AppProviderProps) {
       unsubscribe();
     };
   }, [user]);
+
+  // Pending activity invitations (shown on My Activities and ActivityDetails)
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = useInvitationStore.getState().initializeListener(user.uid);
+    return () => unsubscribe();
+  }, [user]);
+
+  // Category registry (labels, icons, colors) used by the Feed, forms and cards
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = useCategoryStore.getState().initializeListener();
+    return () => unsubscribe();
+  }, [user]);
   
   return (
     <>
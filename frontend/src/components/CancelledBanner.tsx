@@ -0,0 +1,23 @@
+// src/components/CancelledBanner.tsx
+
+import React from "react";
+import { Ban } from "lucide-react";
+
+interface Props {
+  /** Optional reason given by the host */
+  reason?: string | null;
+  className?: string;
+}
+
+/** Shown on cards, details and chat of a cancelled activity */
+export default function CancelledBanner({ reason, className }: Props) {
+  return (
+    <div className={`flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700 ${className ?? ""}`}>
+      <Ban className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <div>
+        <p className="font-medium">This activity has been cancelled</p>
+        {reason && <p className="text-red-600/90">{reason}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+// src/components/CategoryBadge.tsx
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import CategoryIcon from "components/CategoryIcon";
+import { useCategoryStore } from "../utils/categoryStore";
+
+interface Props {
+  category: string;
+  className?: string;
+}
+
+/** Category label with its registry icon and color */
+export default function CategoryBadge({ category, className }: Props) {
+  const info = useCategoryStore((state) => state.getCategory(category));
+  return (
+    <Badge className={`gap-1 bg-background/90 hover:bg-background ${className ?? ""}`} style={{ color: info.color }}>
+      <CategoryIcon name={info.icon} className="h-3.5 w-3.5" />
+      {info.label}
+    </Badge>
+  );
+}
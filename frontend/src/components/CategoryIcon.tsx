@@ -0,0 +1,32 @@
+// src/components/CategoryIcon.tsx
+
+import React from "react";
+import { Bike, ChefHat, Clapperboard, Dumbbell, Gamepad2, Mountain, Music, Palette, Plane, Tag, Users, UtensilsCrossed, type LucideIcon } from "lucide-react";
+
+// Icon names a registry entry can use; anything else falls back to a tag
+const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  bike: Bike,
+  "chef-hat": ChefHat,
+  clapperboard: Clapperboard,
+  dumbbell: Dumbbell,
+  "gamepad-2": Gamepad2,
+  mountain: Mountain,
+  music: Music,
+  palette: Palette,
+  plane: Plane,
+  tag: Tag,
+  users: Users,
+  "utensils-crossed": UtensilsCrossed,
+};
+
+interface Props {
+  /** lucide icon name from the category registry */
+  name: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+export default function CategoryIcon({ name, className, style }: Props) {
+  const Icon = CATEGORY_ICONS[name] ?? Tag;
+  return <Icon className={className} style={style} />;
+}
@@ -0,0 +1,92 @@
+// src/components/CheckInDialog.tsx
+
+import React, { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Activity, useActivityStore } from "../utils/activityStore";
+
+interface Props {
+  activity: Activity;
+  /** Participants as loaded by ActivityDetails */
+  participants: Array<{ id: string; name: string }>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Host check-in: a manual checklist or a QR code participants scan */
+export default function CheckInDialog({ activity, participants, open, onOpenChange }: Props) {
+  const { getCheckInUrl, setAttendance } = useActivityStore();
+  const [checkInUrl, setCheckInUrl] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const attended = activity.attendedIds ?? [];
+
+  useEffect(() => {
+    if (!open || checkInUrl) return;
+    getCheckInUrl(activity.id)
+      .then(setCheckInUrl)
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load the check-in code"));
+  }, [open, activity.id]);
+
+  const toggle = async (userId: string, value: boolean) => {
+    if (updating) return;
+    try {
+      setUpdating(userId);
+      await setAttendance(activity.id, userId, value);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update attendance");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  // The organizer is never scored
+  const checklist = participants.filter((p) => p.id !== activity.createdBy.userId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Check-in</DialogTitle>
+          <DialogDescription>{attended.length} of {checklist.length} checked in</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="qr">
+          <TabsList className="grid grid-cols-2">
+            <TabsTrigger value="qr">QR Code</TabsTrigger>
+            <TabsTrigger value="list">Checklist</TabsTrigger>
+          </TabsList>
+          <TabsContent value="qr" className="flex flex-col items-center gap-3 py-4">
+            {checkInUrl ? (
+              <>
+                <QRCodeSVG value={checkInUrl} size={220} includeMargin />
+                <p className="text-sm text-muted-foreground text-center">Participants scan this with their phone camera to check in.</p>
+              </>
+            ) : (
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            )}
+          </TabsContent>
+          <TabsContent value="list">
+            {checklist.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No participants to check in</p>
+            ) : (
+              <ScrollArea className="h-[300px] pr-4">
+                <div className="space-y-1">
+                  {checklist.map((participant) => (
+                    <label key={participant.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/20 cursor-pointer">
+                      {updating === participant.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Checkbox checked={attended.includes(participant.id)} onCheckedChange={(v) => toggle(participant.id, v === true)} disabled={updating !== null} />}
+                      <span className="font-medium truncate">{participant.name || `User-${participant.id.substring(0, 5)}`}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+// src/components/CoverImagePicker.tsx
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ImagePlus, X } from "lucide-react";
+import ActivityCover, { COVER_PRESETS, resolveCoverPreset } from "components/ActivityCover";
+import { CoverImage } from "../utils/fileStorage";
+
+export interface CoverSelection {
+  // New upload, saved with the activity
+  file: File | null;
+  // Already-uploaded cover (editing)
+  image: CoverImage | null;
+  // Picked artwork; null follows the category
+  preset: string | null;
+}
+
+interface Props {
+  category: string;
+  value: CoverSelection;
+  onChange: (value: CoverSelection) => void;
+}
+
+/** Upload a cover or pick one of the built-in artworks */
+export default function CoverImagePicker({ category, value, onChange }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  // Local preview of a picked file until it's uploaded on save
+  useEffect(() => {
+    if (!value.file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(value.file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [value.file]);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file && file.type.startsWith("image/")) {
+      onChange({ ...value, file });
+    }
+  };
+
+  const activePreset = resolveCoverPreset({ coverPreset: value.preset, category });
+  const hasImage = !!value.file || !!value.image;
+
+  return (
+    <div className="space-y-3">
+      <div className="relative overflow-hidden rounded-lg">
+        {previewUrl ? (
+          <img src={previewUrl} alt="Cover preview" className="h-40 w-full object-cover" />
+        ) : (
+          <ActivityCover activity={{ coverImage: value.image, coverPreset: value.preset, category, title: "Cover" }} className="h-40" />
+        )}
+        {hasImage && (
+          <Button type="button" size="icon" variant="secondary" className="absolute top-2 right-2 h-8 w-8" onClick={() => onChange({ ...value, file: null, image: null })} aria-label="Remove cover image">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFile} />
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <ImagePlus className="mr-2 h-4 w-4" />{hasImage ? "Replace Image" : "Upload Image"}
+        </Button>
+        <span className="text-xs text-muted-foreground">or pick artwork:</span>
+        {Object.entries(COVER_PRESETS).map(([key, { label, gradient, icon: Icon }]) => (
+          <button
+            key={key}
+            type="button"
+            title={label}
+            aria-label={`${label} artwork`}
+            onClick={() => onChange({ file: null, image: null, preset: key })}
+            className={`h-8 w-8 rounded-md flex items-center justify-center bg-gradient-to-br ${gradient} ${!hasImage && activePreset === key ? "ring-2 ring-offset-2 ring-primary" : ""}`}
+          >
+            <Icon className="h-4 w-4 text-white" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// src/components/DatePoll.tsx
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { toast } from "sonner";
+import { CalendarCheck, Loader2 } from "lucide-react";
+import { Activity, getDateVoteTally, useActivityStore } from "../utils/activityStore";
+import { formatActivityDateTime } from "../utils/formatTime";
+
+interface Props {
+  activity: Activity;
+  userId: string;
+  // For voter names; anyone missing shows up as "someone"
+  participants: Array<{ id: string; name: string }>;
+  canVote: boolean;
+  canLock: boolean;
+}
+
+/** Doodle-style availability poll with a live tally; hosts lock in the winner */
+export default function DatePoll({ activity, userId, participants, canVote, canLock }: Props) {
+  const { voteOnDates, lockActivityDate } = useActivityStore();
+  const [saving, setSaving] = useState(false);
+  const [locking, setLocking] = useState<string | null>(null);
+
+  const options = [...(activity.dateOptions ?? [])].sort((a, b) => a.dateTime.toMillis() - b.dateTime.toMillis());
+  const tally = getDateVoteTally(activity);
+  const myVotes = activity.dateVotes?.[userId] ?? [];
+  const topCount = Math.max(0, ...Object.values(tally).map((ids) => ids.length));
+  const voterCount = Object.keys(activity.dateVotes ?? {}).length;
+  const nameOf = (id: string) => participants.find((p) => p.id === id)?.name || "someone";
+
+  const toggle = async (optionId: string, available: boolean) => {
+    if (saving) return;
+    const next = available ? [...myVotes, optionId] : myVotes.filter((id) => id !== optionId);
+    try {
+      setSaving(true);
+      await voteOnDates(activity.id, userId, next);
+    } catch (error) {
+      toast.error("Failed to save your availability");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLock = async (optionId: string) => {
+    if (locking) return;
+    try {
+      setLocking(optionId);
+      await lockActivityDate(activity.id, optionId);
+      toast.success("Date locked in. Voters have been notified.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to lock in the date");
+    } finally {
+      setLocking(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div>
+        <h3 className="font-semibold">When works for you?</h3>
+        <p className="text-xs text-muted-foreground">
+          {canVote ? "Tick every date you could make. " : "Join the activity to vote. "}
+          {voterCount} {voterCount === 1 ? "person has" : "people have"} voted.
+        </p>
+      </div>
+      {options.map((option) => {
+        const { date, time } = formatActivityDateTime(option.dateTime.toDate());
+        const voters = tally[option.id] ?? [];
+        const isTop = voters.length > 0 && voters.length === topCount;
+        const isPast = option.dateTime.toMillis() < Date.now();
+        return (
+          <div key={option.id} className={`flex items-center gap-3 p-2 rounded-lg ${isTop ? "bg-primary/10" : "hover:bg-muted/20"}`}>
+            <Checkbox
+              id={`date-option-${option.id}`}
+              checked={myVotes.includes(option.id)}
+              onCheckedChange={(checked) => toggle(option.id, checked === true)}
+              disabled={!canVote || saving || isPast}
+            />
+            <label htmlFor={`date-option-${option.id}`} className="flex-1 min-w-0">
+              <p className="text-sm font-medium">{date} · {time}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {voters.length === 0 ? "No votes yet" : `${voters.length}: ${voters.map(nameOf).join(", ")}`}
+              </p>
+            </label>
+            {canLock && (
+              <Button size="sm" variant={isTop ? "default" : "outline"} onClick={() => handleLock(option.id)} disabled={locking !== null || isPast}>
+                {locking === option.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <><CalendarCheck className="mr-1 h-4 w-4" />Pick</>}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+// src/components/DraftsList.tsx
+
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+import { useUserGuardContext } from "app";
+import { useDraftStore } from "../utils/draftStore";
+
+/** Unpublished activities from the Create form; resuming one reopens it there */
+export default function DraftsList() {
+  const navigate = useNavigate();
+  const { user } = useUserGuardContext();
+  const { drafts, isLoading, subscribeToDrafts, deleteDraft } = useDraftStore();
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToDrafts(user.uid);
+    return () => unsubscribe();
+  }, [user.uid, subscribeToDrafts]);
+
+  const handleDelete = async (draftId: string) => {
+    if (deleting) return;
+    try {
+      setDeleting(draftId);
+      await deleteDraft(user.uid, draftId);
+      toast.success("Draft deleted");
+    } catch (error) {
+      toast.error("Failed to delete draft");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">Loading your drafts…</p>
+      </div>
+    );
+  }
+
+  if (drafts.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">No drafts. Anything you start on the Create page is saved here automatically.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="rounded-3xl border-border/40">
+      <CardHeader className="pb-2"><h2 className="text-lg font-semibold">Drafts ({drafts.length})</h2></CardHeader>
+      <CardContent className="space-y-3">
+        {drafts.map((draft) => (
+          <div key={draft.id} className="flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-muted/20">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{draft.title.trim() || "Untitled activity"}</p>
+              <p className="text-sm text-muted-foreground truncate">{[draft.category, draft.location].filter(Boolean).join(" · ") || "No details yet"}</p>
+              {draft.updatedAt && (<p className="text-xs text-muted-foreground">Edited {formatDistanceToNow(draft.updatedAt.toDate(), { addSuffix: true })}</p>)}
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <Button size="sm" onClick={() => navigate(`/create?draft=${draft.id}`)}><Pencil className="mr-1 h-4 w-4" />Continue</Button>
+              <Button size="sm" variant="outline" onClick={() => handleDelete(draft.id)} disabled={deleting !== null} aria-label="Delete draft">{deleting === draft.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}</Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+// src/components/EditHistory.tsx
+
+import React, { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { ActivityChange, ActivityEdit, useActivityStore } from "../utils/activityStore";
+import { formatActivityDateTime } from "../utils/formatTime";
+
+interface Props {
+  activityId: string;
+}
+
+const FIELD_LABELS: Record<ActivityChange["field"], string> = {
+  title: "Title",
+  dateTime: "Time",
+  location: "Location",
+  maxParticipants: "Capacity",
+  description: "Description",
+};
+
+// Times are rendered in the viewer's own zone, unlike the chat message
+const formatValue = (change: ActivityChange, value: ActivityChange["from"]) => {
+  if (change.field === "dateTime") {
+    if (typeof value !== "number") return "unset";
+    const { date, time } = formatActivityDateTime(new Date(value));
+    return `${date} ${time}`;
+  }
+  if (change.field === "maxParticipants") return value === null ? "unlimited" : String(value);
+  return value ? String(value) : "unset";
+};
+
+/** What hosts changed on an activity after it was created, newest first */
+export default function EditHistory({ activityId }: Props) {
+  const getActivityEdits = useActivityStore((s) => s.getActivityEdits);
+  const [edits, setEdits] = useState<ActivityEdit[] | null>(null);
+
+  useEffect(() => {
+    setEdits(null);
+    getActivityEdits(activityId)
+      .then(setEdits)
+      .catch(() => setEdits([]));
+  }, [activityId, getActivityEdits]);
+
+  if (edits === null) {
+    return <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>;
+  }
+
+  if (edits.length === 0) {
+    return <p className="text-center py-8 text-muted-foreground">No changes since this activity was created.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {edits.map((edit) => (
+        <div key={edit.id} className="p-3 rounded-lg border">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <History className="h-4 w-4 text-muted-foreground" />
+            {edit.editedByName}
+            {edit.createdAt && (<span className="text-xs font-normal text-muted-foreground">{formatDistanceToNow(edit.createdAt.toDate(), { addSuffix: true })}</span>)}
+          </p>
+          <ul className="mt-2 space-y-1 text-sm">
+            {edit.changes.map((change) => (
+              <li key={change.field}>
+                <span className="text-muted-foreground">{FIELD_LABELS[change.field]}:</span>{" "}
+                {change.field === "description" ? "updated" : <><span className="line-through text-muted-foreground">{formatValue(change, change.from)}</span> → {formatValue(change, change.to)}</>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
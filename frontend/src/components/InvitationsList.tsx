@@ -0,0 +1,60 @@
+// src/components/InvitationsList.tsx
+
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { CalendarIcon, Check, Loader2, X } from "lucide-react";
+import { useInvitationStore } from "../utils/invitationStore";
+import { toDate } from "../utils/dateTime";
+import { formatActivityDateTime } from "../utils/formatTime";
+
+/** Pending activity invitations for the signed-in user; renders nothing when empty */
+export default function InvitationsList() {
+  const navigate = useNavigate();
+  const { invitations, respondToInvitation } = useInvitationStore();
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+
+  if (invitations.length === 0) return null;
+
+  const handleRespond = async (invitationId: string, accept: boolean) => {
+    if (respondingTo) return;
+    try {
+      setRespondingTo(invitationId);
+      const joinStatus = await respondToInvitation(invitationId, accept);
+      if (accept) {
+        toast.success(joinStatus === "waitlisted" ? "The activity is full, you're on the waitlist" : "You have joined the activity!");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to respond to invitation");
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  return (
+    <Card className="rounded-3xl border-border/40">
+      <CardHeader className="pb-2"><h2 className="text-lg font-semibold">Invitations ({invitations.length})</h2></CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map((invitation) => {
+          const date = toDate(invitation.activityDateTime);
+          const when = date ? formatActivityDateTime(date) : null;
+          return (
+            <div key={invitation.id} className="flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-muted/20">
+              <div className="min-w-0">
+                <Button variant="link" className="p-0 h-auto font-medium truncate" onClick={() => navigate(`/activity-details?id=${invitation.activityId}`)}>{invitation.activityTitle}</Button>
+                <p className="text-sm text-muted-foreground truncate">Invited by {invitation.inviterName}</p>
+                {when && (<p className="text-xs text-muted-foreground flex items-center gap-1"><CalendarIcon className="h-3 w-3" />{when.date} · {when.time}</p>)}
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button size="sm" onClick={() => handleRespond(invitation.id, true)} disabled={respondingTo !== null}>{respondingTo === invitation.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Check className="mr-1 h-4 w-4" />Accept</>}</Button>
+                <Button size="sm" variant="outline" onClick={() => handleRespond(invitation.id, false)} disabled={respondingTo !== null}><X className="mr-1 h-4 w-4" />Decline</Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
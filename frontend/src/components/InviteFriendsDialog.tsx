@@ -0,0 +1,120 @@
+// src/components/InviteFriendsDialog.tsx
+
+import React, { useEffect, useState } from "react";
+import { firebaseApp } from "app";
+import { getFirestore, collection, query, where, getDocs } from "firebase/firestore";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { useFriendsStore } from "../utils/friendsStore";
+import { UserProfile } from "../utils/userProfileStore";
+
+const db = getFirestore(firebaseApp);
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Friends who can't be picked (already participating) */
+  excludeIds?: string[];
+  /** Preselected friends, e.g. when reopening the picker on Create */
+  initialSelection?: string[];
+  confirmLabel?: string;
+  onConfirm: (friendIds: string[]) => void | Promise<void>;
+}
+
+/** Picker over the signed-in user's friend list (useFriendsStore) */
+export default function InviteFriendsDialog({ open, onOpenChange, excludeIds = [], initialSelection = [], confirmLabel = "Send Invitations", onConfirm }: Props) {
+  const friends = useFriendsStore((s) => s.friends);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<string[]>(initialSelection);
+  const [filter, setFilter] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setSelected(initialSelection);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const ids = friends.filter((id) => !excludeIds.includes(id));
+    if (ids.length === 0) {
+      setProfiles([]);
+      return;
+    }
+    const load = async () => {
+      setLoading(true);
+      try {
+        // 'in' queries take at most 10 values
+        const chunks: string[][] = [];
+        for (let i = 0; i < ids.length; i += 10) chunks.push(ids.slice(i, i + 10));
+        const snapshots = await Promise.all(
+          chunks.map((chunk) => getDocs(query(collection(db, "userProfiles"), where("userId", "in", chunk))))
+        );
+        setProfiles(snapshots.flatMap((snap) => snap.docs.map((doc) => doc.data() as UserProfile)));
+      } catch (e) {
+        console.error("Error loading friends for invitations", e);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [open, friends, excludeIds.join(",")]);
+
+  const visible = profiles
+    .filter((p) => (p.displayName ?? "").toLowerCase().includes(filter.trim().toLowerCase()))
+    .sort((a, b) => (a.displayName ?? "").localeCompare(b.displayName ?? ""));
+
+  const toggle = (userId: string) =>
+    setSelected((prev) => (prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]));
+
+  const handleConfirm = async () => {
+    try {
+      setSubmitting(true);
+      await onConfirm(selected);
+      onOpenChange(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const getInitials = (name?: string | null) =>
+    name ? name.split(" ").filter(Boolean).map((part) => part[0].toUpperCase()).join("") : "?";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader><DialogTitle>Invite friends</DialogTitle></DialogHeader>
+        <Input placeholder="Search friends..." value={filter} onChange={(e) => setFilter(e.target.value)} />
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : visible.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">{profiles.length === 0 ? "No friends to invite yet" : "No friends match your search"}</p>
+        ) : (
+          <ScrollArea className="h-[300px] pr-4">
+            <div className="space-y-1">
+              {visible.map((profile) => (
+                <label key={profile.userId} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/20 cursor-pointer">
+                  <Checkbox checked={selected.includes(profile.userId)} onCheckedChange={() => toggle(profile.userId)} />
+                  <Avatar className="h-8 w-8">{profile.photoURL ? <AvatarImage src={profile.photoURL} alt={profile.displayName ?? ""} /> : null}<AvatarFallback>{getInitials(profile.displayName)}</AvatarFallback></Avatar>
+                  <span className="font-medium truncate">{profile.displayName || `User-${profile.userId.substring(0, 5)}`}</span>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={submitting || (selected.length === 0 && initialSelection.length === 0)}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {confirmLabel}{selected.length > 0 ? ` (${selected.length})` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
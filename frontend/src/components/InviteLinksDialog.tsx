@@ -0,0 +1,148 @@
+// src/components/InviteLinksDialog.tsx
+
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Copy, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useActivityStore, InviteLink } from "../utils/activityStore";
+
+const EXPIRY_OPTIONS = [
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 7 * 24 },
+  { label: "30 days", hours: 30 * 24 },
+];
+
+interface Props {
+  activityId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const linkState = (link: InviteLink) => {
+  if (link.revoked) return "Revoked";
+  if (link.expiresAt.toMillis() < Date.now()) return "Expired";
+  if (link.maxUses && link.uses >= link.maxUses) return "Used up";
+  return null;
+};
+
+/** Hosts create, copy and revoke invite links for an activity */
+export default function InviteLinksDialog({ activityId, open, onOpenChange }: Props) {
+  const { createInviteLink, revokeInviteLink, getInviteLinks } = useActivityStore();
+  const [expiresInHours, setExpiresInHours] = useState(String(EXPIRY_OPTIONS[1].hours));
+  const [maxUses, setMaxUses] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+  const [links, setLinks] = useState<InviteLink[]>([]);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const loadLinks = () =>
+    getInviteLinks(activityId)
+      .then(setLinks)
+      .catch((err) => console.error("Failed to load invite links:", err));
+
+  useEffect(() => {
+    if (!open) return;
+    setNewUrl(null);
+    loadLinks();
+  }, [open, activityId]);
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (creating) return;
+    try {
+      setCreating(true);
+      const url = await createInviteLink(activityId, {
+        expiresInHours: Number(expiresInHours),
+        maxUses: maxUses ? Number(maxUses) : null,
+      });
+      setNewUrl(url);
+      setMaxUses("");
+      await copy(url);
+      loadLinks();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create invite link");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    if (revoking) return;
+    try {
+      setRevoking(linkId);
+      await revokeInviteLink(linkId);
+      setLinks((prev) => prev.map((l) => (l.id === linkId ? { ...l, revoked: true } : l)));
+      toast.success("Link revoked");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revoke link");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invite links</DialogTitle>
+          <DialogDescription>Anyone with a link can view and join this activity until it expires, runs out of uses or is revoked.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Expires after</Label>
+            <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((o) => (<SelectItem key={o.hours} value={String(o.hours)}>{o.label}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="maxUses">Max uses (optional)</Label>
+            <Input id="maxUses" type="number" min={1} placeholder="Unlimited" value={maxUses} onChange={(e) => setMaxUses(e.target.value)} />
+          </div>
+        </div>
+        <Button onClick={handleCreate} disabled={creating}>{creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Create Link</Button>
+
+        {newUrl && (
+          <div className="flex gap-2">
+            <Input readOnly value={newUrl} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={() => copy(newUrl)} aria-label="Copy link"><Copy className="h-4 w-4" /></Button>
+          </div>
+        )}
+
+        {links.length > 0 && (
+          <div className="space-y-2 max-h-[240px] overflow-y-auto">
+            {links.map((link) => {
+              const state = linkState(link);
+              return (
+                <div key={link.id} className="flex items-center justify-between gap-2 p-2 rounded-lg border text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate">Created {formatDistanceToNow(link.createdAt.toDate(), { addSuffix: true })}</p>
+                    <p className="text-xs text-muted-foreground">{link.uses}{link.maxUses ? ` / ${link.maxUses}` : ""} uses · {state ? state : `expires ${formatDistanceToNow(link.expiresAt.toDate(), { addSuffix: true })}`}</p>
+                  </div>
+                  {state ? (<Badge variant="outline">{state}</Badge>) : (<Button size="sm" variant="outline" className="text-red-600" onClick={() => handleRevoke(link.id)} disabled={revoking !== null}>{revoking === link.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Revoke"}</Button>)}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+// src/components/LoadMoreSentinel.tsx
+
+import React, { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+
+interface Props {
+  /** Whether there are more pages to load */
+  hasMore: boolean;
+  /** True while a page is being fetched */
+  isLoading: boolean;
+  /** Called when the sentinel scrolls into view */
+  onLoadMore: () => void;
+}
+
+/**
+ * Invisible marker placed after a list; triggers `onLoadMore` shortly before
+ * the user reaches the end, for infinite scrolling.
+ */
+export default function LoadMoreSentinel({ hasMore, isLoading, onLoadMore }: Props) {
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!hasMore || isLoading || !ref.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onLoadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore && !isLoading) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center py-6">
+      {isLoading && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+    </div>
+  );
+}
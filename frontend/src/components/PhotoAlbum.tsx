@@ -0,0 +1,113 @@
+// src/components/PhotoAlbum.tsx
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { toast } from "sonner";
+import { ImagePlus, Loader2, Trash2 } from "lucide-react";
+import { useAlbumStore } from "../utils/albumStore";
+import { useUserGuardContext } from "app";
+
+// Keeps a single pick from tying up the browser while images are resized
+const MAX_PHOTOS_PER_UPLOAD = 10;
+
+interface Props {
+  activityId: string;
+  /** Participants can add photos */
+  canUpload: boolean;
+  /** Hosts can delete anyone's photo */
+  canModerate: boolean;
+}
+
+/** Thumbnail grid for an activity's shared album, with a full-size carousel */
+export default function PhotoAlbum({ activityId, canUpload, canModerate }: Props) {
+  const { user } = useUserGuardContext();
+  const { photos, isLoading, isUploading, subscribeToAlbum, uploadPhotos, deletePhoto } = useAlbumStore();
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAlbum(activityId);
+    return () => unsubscribe();
+  }, [activityId, subscribeToAlbum]);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []).filter((file) => file.type.startsWith("image/"));
+    event.target.value = "";
+    if (files.length === 0) return;
+    if (files.length > MAX_PHOTOS_PER_UPLOAD) {
+      toast.error(`You can add up to ${MAX_PHOTOS_PER_UPLOAD} photos at a time`);
+      return;
+    }
+    try {
+      await uploadPhotos(activityId, files, user);
+      toast.success(files.length === 1 ? "Photo added to the album" : `${files.length} photos added to the album`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload photos");
+    }
+  };
+
+  const handleDelete = async (photoId: string) => {
+    if (deletingId) return;
+    try {
+      setDeletingId(photoId);
+      await deletePhoto(activityId, photoId);
+      toast.success("Photo deleted");
+      setViewerIndex(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete photo");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {canUpload && (
+        <div className="flex justify-end">
+          <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>{isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImagePlus className="mr-2 h-4 w-4" />}{isUploading ? "Uploading..." : "Add Photos"}</Button>
+        </div>
+      )}
+      {isLoading ? (
+        <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+      ) : photos.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">{canUpload ? "No photos yet. Be the first to share one!" : "No photos yet"}</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {photos.map((photo, index) => (
+            <button key={photo.id} type="button" className="aspect-square overflow-hidden rounded-lg bg-muted" onClick={() => setViewerIndex(index)}>
+              <img src={photo.thumbUrl} alt={`Photo by ${photo.uploaderName}`} loading="lazy" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+      <Dialog open={viewerIndex !== null} onOpenChange={(open) => { if (!open) setViewerIndex(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader><DialogTitle>Album</DialogTitle></DialogHeader>
+          {viewerIndex !== null && (
+            <Carousel opts={{ startIndex: viewerIndex }} className="mx-12">
+              <CarouselContent>
+                {photos.map((photo) => (
+                  <CarouselItem key={photo.id}>
+                    <div className="flex flex-col items-center gap-2">
+                      <img src={photo.url} alt={`Photo by ${photo.uploaderName}`} className="max-h-[60vh] w-auto rounded-lg object-contain" />
+                      <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                        <span>Shared by {photo.uploaderName}</span>
+                        {(photo.uploaderId === user.uid || canModerate) && (<Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleDelete(photo.id)} disabled={deletingId !== null}>{deletingId === photo.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}</Button>)}
+                      </div>
+                    </div>
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious />
+              <CarouselNext />
+            </Carousel>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// src/components/ReviewDialog.tsx
+
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import StarRating from "components/StarRating";
+import { Activity, useActivityStore } from "../utils/activityStore";
+import { useUserGuardContext } from "app";
+
+interface Props {
+  activity: Activity;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Rate a finished activity and its organizer; reopening edits the earlier review */
+export default function ReviewDialog({ activity, open, onOpenChange }: Props) {
+  const { user } = useUserGuardContext();
+  const { submitReview, getReview } = useActivityStore();
+  const [activityRating, setActivityRating] = useState(0);
+  const [hostRating, setHostRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    getReview(activity.id, user.uid)
+      .then((review) => {
+        if (!review) return;
+        setActivityRating(review.activityRating);
+        setHostRating(review.hostRating);
+        setComment(review.comment);
+      })
+      .catch((error) => console.error("Error loading review:", error));
+  }, [open, activity.id, user.uid, getReview]);
+
+  const handleSubmit = async () => {
+    if (!activityRating || !hostRating || submitting) return;
+    try {
+      setSubmitting(true);
+      await submitReview(activity.id, { activityRating, hostRating, comment: comment.trim() });
+      toast.success("Thanks for your feedback!");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to submit review");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const hostName = activity.createdBy.displayName || "the organizer";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>How was {activity.title}?</DialogTitle>
+          <DialogDescription>Your ratings count towards the activity's and {hostName}'s averages.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>The activity</Label>
+            <StarRating value={activityRating} onChange={setActivityRating} label="Activity rating" />
+          </div>
+          <div className="space-y-1">
+            <Label>{hostName} as host</Label>
+            <StarRating value={hostRating} onChange={setHostRating} label="Host rating" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="review-comment">Comments (optional)</Label>
+            <Textarea id="review-comment" value={comment} onChange={(e) => setComment(e.target.value)} maxLength={1000} rows={4} placeholder="What went well? What could be better?" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Not now</Button>
+          <Button onClick={handleSubmit} disabled={!activityRating || !hostRating || submitting}>{submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Submit Review"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,63 @@
+// src/components/SaveTemplateDialog.tsx
+
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { useUserGuardContext } from "app";
+import { Activity } from "../utils/activityStore";
+import { useTemplateStore, templateFromActivity } from "../utils/templateStore";
+
+interface Props {
+  activity: Activity;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Names and saves an activity as a reusable template for the Create form */
+export default function SaveTemplateDialog({ activity, open, onOpenChange }: Props) {
+  const { user } = useUserGuardContext();
+  const saveTemplate = useTemplateStore((s) => s.saveTemplate);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(activity.title);
+  }, [open, activity.title]);
+
+  const handleSave = async () => {
+    if (saving) return;
+    try {
+      setSaving(true);
+      await saveTemplate(user.uid, name, templateFromActivity(activity));
+      toast.success("Template saved. Pick it when creating an activity.");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error("Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>Everything but the date is saved, so the next one only needs a new time.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          <Label htmlFor="templateName">Template name</Label>
+          <Input id="templateName" value={name} maxLength={80} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>{saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Template</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
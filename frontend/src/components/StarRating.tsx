@@ -0,0 +1,32 @@
+// src/components/StarRating.tsx
+
+import React from "react";
+import { Star } from "lucide-react";
+
+interface Props {
+  /** 1–5; fractional values (averages) round to the nearest star */
+  value: number;
+  /** Makes the stars clickable */
+  onChange?: (value: number) => void;
+  size?: "sm" | "md";
+  label?: string;
+}
+
+/** Five-star display, or an input when onChange is passed */
+export default function StarRating({ value, onChange, size = "md", label }: Props) {
+  const iconClass = size === "sm" ? "h-3.5 w-3.5" : "h-6 w-6";
+  const filled = Math.round(value);
+
+  return (
+    <div className="flex items-center gap-0.5" role={onChange ? "radiogroup" : "img"} aria-label={label ?? `${value.toFixed(1)} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = <Star className={`${iconClass} ${star <= filled ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40"}`} />;
+        return onChange ? (
+          <button key={star} type="button" role="radio" aria-checked={star === value} aria-label={`${star} star${star === 1 ? "" : "s"}`} className="p-0.5" onClick={() => onChange(star)}>{icon}</button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
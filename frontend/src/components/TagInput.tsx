@@ -0,0 +1,82 @@
+// src/components/TagInput.tsx
+
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import { MAX_TAGS_PER_ACTIVITY, normalizeTag, useCategoryStore } from "../utils/categoryStore";
+
+interface Props {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Defaults to the per-activity limit; the Feed filter uses 1 */
+  maxTags?: number;
+  placeholder?: string;
+  id?: string;
+}
+
+/** Free-form tags with autocomplete from tags already used on activities */
+export default function TagInput({ value, onChange, maxTags = MAX_TAGS_PER_ACTIVITY, placeholder = "Add a tag and press Enter", id }: Props) {
+  const suggestTags = useCategoryStore((state) => state.suggestTags);
+  const [draft, setDraft] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!normalizeTag(draft)) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      suggestTags(draft).then((tags) => { if (!cancelled) setSuggestions(tags.filter((t) => !value.includes(t))); });
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, value, suggestTags]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft("");
+    setSuggestions([]);
+    if (!tag || value.includes(tag) || value.length >= maxTags) return;
+    onChange([...value, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              #{tag}
+              <button type="button" aria-label={`Remove ${tag}`} onClick={() => onChange(value.filter((t) => t !== tag))}><X className="h-3 w-3" /></button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      {value.length < maxTags && (
+        <div className="relative">
+          <Input id={id} value={draft} placeholder={placeholder} onChange={(e) => setDraft(e.target.value)} onKeyDown={handleKeyDown} onBlur={() => setSuggestions([])} />
+          {suggestions.length > 0 && (
+            <div className="absolute z-10 mt-1 w-full rounded-md border bg-background shadow-md">
+              {suggestions.map((tag) => (
+                <button key={tag} type="button" className="block w-full px-3 py-1.5 text-left text-sm hover:bg-muted" onMouseDown={(e) => e.preventDefault()} onClick={() => addTag(tag)}>#{tag}</button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { Layout } from "components/Layout";
-import { useActivityStore, Activity } from "../utils/activityStore";
+import { useActivityStore, Activity, toActivity, isParticipant, isPending, getWaitlistPosition, UNCANCEL_WINDOW_MS, isActivityHost, isCheckInOpen, canReviewActivity, averageRating, RsvpStatus, getRsvpStatus, getRsvpCounts } from "../utils/activityStore";
 import { useUserGuardContext } from "app";
 import { useFriendsStore } from "../utils/friendsStore";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
@@ -9,70 +9,110 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { TooltipProvider, Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { toast } from "sonner";
-import { CalendarIcon, MapPinIcon, UsersIcon, Clock, ArrowLeft, UserPlus, Lock, Globe, MessageSquare, Loader2, UserCheck, UserX } from "lucide-react";
+import CancelledBanner from "components/CancelledBanner";
+import InviteFriendsDialog from "components/InviteFriendsDialog";
+import InviteLinksDialog from "components/InviteLinksDialog";
+import CheckInDialog from "components/CheckInDialog";
+import ReviewDialog from "components/ReviewDialog";
+import StarRating from "components/StarRating";
+import PhotoAlbum from "components/PhotoAlbum";
+import ActivityCover from "components/ActivityCover";
+import SaveTemplateDialog from "components/SaveTemplateDialog";
+import DatePoll from "components/DatePoll";
+import EditHistory from "components/EditHistory";
+import CategoryBadge from "components/CategoryBadge";
+import { useInvitationStore } from "../utils/invitationStore";
+import { CalendarIcon, MapPinIcon, UsersIcon, Clock, ArrowLeft, UserPlus, Lock, Globe, MessageSquare, Loader2, UserCheck, UserX, CalendarPlus, RotateCcw, ShieldCheck, Crown, Link2, QrCode, CircleCheck, Star, Copy, BookmarkPlus } from "lucide-react";
 import { useChatStore } from "../utils/chatStore";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { formatActivityDateTime } from "../utils/formatTime";
+import { toDate } from "../utils/dateTime";
+import { downloadActivityIcs } from "../utils/ics";
 import { doc, onSnapshot, getDoc, Timestamp } from "firebase/firestore";
 import { firestore } from "../utils/firebase"; 
 
-type Profile = { id: string; name: string; photoURL: string | null };
+type Profile = { id: string; name: string; photoURL: string | null; attendedCount?: number; noShowCount?: number };
+
+// The join/leave control shown to everyone but the organizer, most specific state first
+type JoinAction = "none" | "leave" | "invitation" | "inviteLink" | "waitlisted" | "pending" | "joinWaitlist" | "join" | "private";
+
+const getJoinAction = (state: {
+  closed: boolean;
+  participant: boolean;
+  invited: boolean;
+  inviteLinkValid: boolean;
+  waitlisted: boolean;
+  pending: boolean;
+  canJoin: boolean;
+  full: boolean;
+  requiresApproval: boolean;
+}): JoinAction => {
+  if (state.closed) return "none";
+  if (state.participant) return "leave";
+  if (state.invited) return "invitation";
+  if (state.inviteLinkValid && !state.waitlisted && !state.pending) return "inviteLink";
+  if (state.waitlisted) return "waitlisted";
+  if (state.pending) return "pending";
+  if (state.canJoin && state.full && !state.requiresApproval) return "joinWaitlist";
+  if (state.canJoin) return "join";
+  return "private";
+};
 
 const ActivityDetailsContent = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const activityId = searchParams.get("id");
+  // Signed invite-link token (?invite=); verified by the redeemInviteLink function
+  const inviteToken = searchParams.get("invite");
+  // Check-in code from the host's QR (?checkin=); verified by the checkIn function
+  const checkInCode = searchParams.get("checkin");
   const { user } = useUserGuardContext();
-  const { activities, isLoading, requestToJoinActivity, leaveActivity, deleteActivity } = useActivityStore();
+  const { activities, isLoading, requestToJoinActivity, approveJoinRequest, denyJoinRequest, joinWaitlist, leaveWaitlist, leaveActivity, cancelActivity, uncancelActivity, setActivityHost, transferOwnership, verifyInviteToken, joinWithInviteToken, setRsvp, checkIn } = useActivityStore();
   const { isFriend, sendFriendRequest } = useFriendsStore();
   
   const [activity, setActivity] = useState<Activity | null>(null);
   const [participants, setParticipants] = useState<Array<{id: string, name: string, photoURL: string | null}>>([]);
+  const [pendingUsers, setPendingUsers] = useState<Profile[]>([]);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const [updatingWaitlist, setUpdatingWaitlist] = useState(false);
   const [participantsDialogOpen, setParticipantsDialogOpen] = useState(false);
   const [joining, setJoining] = useState(false);
   const [leaving, setLeaving] = useState(false);
   const [sendingRequest, setSendingRequest] = useState(false);
   const [chatJoinAttempted, setChatJoinAttempted] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [updatingRoleFor, setUpdatingRoleFor] = useState<string | null>(null);
+  const [transferTarget, setTransferTarget] = useState<{ id: string; name: string } | null>(null);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [linksDialogOpen, setLinksDialogOpen] = useState(false);
+  const [inviteLinkValid, setInviteLinkValid] = useState(false);
+  const [checkInDialogOpen, setCheckInDialogOpen] = useState(false);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [checkInAttempted, setCheckInAttempted] = useState(false);
+  const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
+  const [updatingRsvp, setUpdatingRsvp] = useState<RsvpStatus | null>(null);
+  const [respondingToInvite, setRespondingToInvite] = useState(false);
+  const { inviteFriends, respondToInvitation } = useInvitationStore();
+  // A pending invitation lets the user join even friends-only / approval-required activities
+  const invitation = useInvitationStore((s) => s.invitations.find((inv) => inv.activityId === activityId));
   const [triedLookup, setTriedLookup] = useState(false);
 
-  // --- FIX IS HERE ---
-  // This memo now safely handles all possible date/timestamp formats.
   const formattedDateTime = useMemo(() => {
-    if (!activity?.dateTime) {
-      return { date: "", time: "" };
-    }
-
-    const rawDateTime = activity.dateTime as any;
-
-    // Case 1: It's a Firestore Timestamp instance.
-    if (typeof rawDateTime.toDate === 'function') {
-      return formatActivityDateTime(rawDateTime.toDate());
-    }
-
-    // Case 2: It's a plain object with seconds/nanoseconds (e.g., from a cache).
-    if (rawDateTime.seconds && typeof rawDateTime.seconds === 'number') {
-      const date = new Timestamp(rawDateTime.seconds, rawDateTime.nanoseconds || 0).toDate();
-      return formatActivityDateTime(date);
-    }
-    
-    // Case 3: It's a string or something else that can be parsed into a Date.
-    try {
-      return formatActivityDateTime(new Date(rawDateTime));
-    } catch (e) {
-      console.error("Could not parse date:", rawDateTime, e);
-      return { date: "Invalid Date", time: "" };
-    }
+    const date = toDate(activity?.dateTime);
+    return date ? formatActivityDateTime(date) : { date: "", time: "" };
   }, [activity]);
 
   const userIsParticipant = useMemo(() => {
     if (!activity || !user) return false;
-    return activity.participantIds.includes(user.uid);
+    return isParticipant(activity, user.uid);
   }, [activity, user]);
 
   const userIsCreator = useMemo(() => {
@@ -80,15 +120,54 @@ const ActivityDetailsContent = () => {
     return activity.createdBy.userId === user.uid;
   }, [activity, user]);
 
+  // Organizer or co-host: can edit, approve joins and moderate the chat
+  const userIsHost = useMemo(() => {
+    if (!activity || !user) return false;
+    return isActivityHost(activity, user.uid);
+  }, [activity, user]);
+
+  const myRsvp = useMemo(() => (activity && user ? getRsvpStatus(activity, user.uid) : null), [activity, user]);
+  const rsvpCounts = useMemo(() => (activity ? getRsvpCounts(activity) : { going: 0, maybe: 0, declined: 0 }), [activity]);
+
+  const userIsPending = useMemo(() => {
+    if (!activity || !user) return false;
+    return isPending(activity, user.uid);
+  }, [activity, user]);
+
+  const waitlistPosition = useMemo(() => {
+    if (!activity || !user) return null;
+    return getWaitlistPosition(activity, user.uid);
+  }, [activity, user]);
+
+  const isFull = useMemo(() => {
+    if (!activity?.maxParticipants) return false;
+    return activity.participantIds.length >= activity.maxParticipants;
+  }, [activity]);
+
   const creatorIsFriend = useMemo(() => {
     if (!activity) return false;
     return isFriend(activity.createdBy.userId);
   }, [activity, isFriend]);
 
+  const isCancelled = activity?.status === "cancelled";
+  const isScheduling = activity?.status === "scheduling";
+  const canReview = !!activity && !!user && canReviewActivity(activity, user.uid);
+  const activityRating = activity ? averageRating(activity.ratingSum, activity.ratingCount) : null;
+
+  // The host can restore a cancelled activity for a while, as long as it hasn't started
+  const canRestore = useMemo(() => {
+    if (!activity || !isCancelled || !userIsCreator) return false;
+    const cancelledAt = toDate(activity.cancelledAt);
+    const startsAt = toDate(activity.dateTime);
+    return !!cancelledAt && Date.now() - cancelledAt.getTime() <= UNCANCEL_WINDOW_MS && (!startsAt || startsAt.getTime() > Date.now());
+  }, [activity, isCancelled, userIsCreator]);
+
   const canJoinActivity = useMemo(() => {
-    if (!activity) return false;
+    if (!activity || isCancelled) return false;
+    // Unlisted is link-only: the invite link / invitation buttons cover everyone else
+    if (activity.unlisted) return userIsCreator;
     return activity.isPublic !== false || userIsCreator || creatorIsFriend;
-  }, [activity, userIsCreator, creatorIsFriend]);
+  }, [activity, isCancelled, userIsCreator, creatorIsFriend]);
 
   useEffect(() => {
     const fetchActivity = async () => {
@@ -103,8 +182,7 @@ const ActivityDetailsContent = () => {
           const docRef = doc(firestore, "activities", activityId);
           const docSnap = await getDoc(docRef);
           if (docSnap.exists()) {
-            const data = docSnap.data();
-            setActivity({ id: activityId, ...data } as Activity);
+            setActivity(toActivity(activityId, docSnap.data()));
           } else {
             toast.error("Activity not found");
             navigate("/feed");
@@ -121,6 +199,30 @@ const ActivityDetailsContent = () => {
     fetchActivity();
   }, [activity, activityId, activities, isLoading, navigate, triedLookup]);
 
+  // Check the invite link once; a valid one unlocks joining private and unlisted activities
+  useEffect(() => {
+    if (!inviteToken || !activityId) return;
+    verifyInviteToken(inviteToken)
+      .then((linkedActivityId) => setInviteLinkValid(linkedActivityId === activityId))
+      .catch((error) => {
+        setInviteLinkValid(false);
+        toast.error(error instanceof Error ? error.message : "This invite link is invalid");
+      });
+  }, [inviteToken, activityId, verifyInviteToken]);
+
+  // Keep the activity live so waitlist positions and join requests update in place
+  useEffect(() => {
+    if (!activityId) return;
+    const unsubscribe = onSnapshot(doc(firestore, "activities", activityId), (docSnap) => {
+      if (docSnap.exists()) {
+        setActivity(toActivity(docSnap.id, docSnap.data()));
+      }
+    }, (error) => {
+      console.error("Error listening to activity:", error);
+    });
+    return () => unsubscribe();
+  }, [activityId]);
+
 
   useEffect(() => {
     const fetchParticipants = async () => {
@@ -150,13 +252,42 @@ const ActivityDetailsContent = () => {
     fetchParticipants();
   }, [activity]);
 
+  useEffect(() => {
+    const fetchPendingUsers = async () => {
+      if (!activity || !userIsHost || !activity.pendingParticipantIds?.length) {
+        setPendingUsers([]);
+        return;
+      }
+      const pending = await Promise.all(activity.pendingParticipantIds.map(async (id) => {
+        const userDoc = await getDoc(doc(firestore, "userProfiles", id));
+        return {
+          id,
+          name: userDoc.exists() ? userDoc.data().displayName : `User-${id.substring(0, 5)}`,
+          photoURL: userDoc.exists() ? userDoc.data().photoURL : null,
+          attendedCount: userDoc.exists() ? userDoc.data().attendedCount ?? 0 : 0,
+          noShowCount: userDoc.exists() ? userDoc.data().noShowCount ?? 0 : 0
+        };
+      }));
+      setPendingUsers(pending);
+    };
+    fetchPendingUsers();
+  }, [activity, userIsHost]);
+
   const handleJoin = useCallback(async () => {
     if (!activity || !user || joining) return;
     try {
       setJoining(true);
-      await requestToJoinActivity(activity.id, user.uid);
-      toast.success("You've joined the activity!");
-      setActivity(prev => prev ? { ...prev, participantIds: [...prev.participantIds, user.uid] } : prev);
+      // The server may skip approval (e.g. for invitees), so trust its answer
+      const status = await requestToJoinActivity(activity.id, user.uid);
+      if (status === "pending") {
+        toast.success("Request to join sent!");
+        setActivity(prev => prev ? { ...prev, pendingParticipantIds: [...(prev.pendingParticipantIds ?? []), user.uid] } : prev);
+      } else if (status === "waitlisted") {
+        toast.success("The activity is full, you're on the waitlist");
+      } else {
+        toast.success("You've joined the activity!");
+        setActivity(prev => prev ? { ...prev, participantIds: [...prev.participantIds, user.uid] } : prev);
+      }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "Failed to join activity");
     } finally {
@@ -164,6 +295,47 @@ const ActivityDetailsContent = () => {
     }
   }, [activity, user, joining, requestToJoinActivity]);
 
+  // Scanning the host's QR lands here with ?checkin=; check in once the activity has loaded
+  useEffect(() => {
+    if (!checkInCode || !activity || !userIsParticipant || checkInAttempted) return;
+    if ((activity.attendedIds ?? []).includes(user.uid)) return;
+    setCheckInAttempted(true);
+    checkIn(activity.id, checkInCode)
+      .then(() => toast.success("You're checked in!"))
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to check in"));
+  }, [checkInCode, activity, userIsParticipant, checkInAttempted, user, checkIn]);
+
+  const handleJoinWithInviteLink = useCallback(async () => {
+    if (!inviteToken || joining) return;
+    try {
+      setJoining(true);
+      const status = await joinWithInviteToken(inviteToken);
+      toast.success(status === "waitlisted" ? "The activity is full, you're on the waitlist" : "You've joined the activity!");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to join activity");
+    } finally {
+      setJoining(false);
+    }
+  }, [inviteToken, joining, joinWithInviteToken]);
+
+  const handleRsvp = useCallback(async (status: RsvpStatus) => {
+    if (!activity || updatingRsvp || status === myRsvp) return;
+    try {
+      setUpdatingRsvp(status);
+      const joinStatus = await setRsvp(activity.id, status);
+      toast.success(
+        status !== "going" ? "RSVP updated"
+          : joinStatus === "pending" ? "Request to join sent!"
+          : joinStatus === "waitlisted" ? "The activity is full, you're on the waitlist"
+          : "You've joined the activity!"
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update RSVP");
+    } finally {
+      setUpdatingRsvp(null);
+    }
+  }, [activity, updatingRsvp, myRsvp, setRsvp]);
+
   const handleLeave = useCallback(async () => {
     if (!activity || !user || leaving) return;
     try {
@@ -184,20 +356,133 @@ const ActivityDetailsContent = () => {
     }
   }, [activity, user, leaving, leaveActivity]);
 
-  const handleDeleteActivity = useCallback(async () => {
-    if (!activity || !user || isDeleting) return;
+  const handleRespondToRequest = useCallback(async (requesterId: string, approve: boolean) => {
+    if (!activity || !user || respondingTo) return;
+    try {
+      setRespondingTo(requesterId);
+      if (approve) {
+        await approveJoinRequest(activity.id, user.uid, requesterId);
+      } else {
+        await denyJoinRequest(activity.id, user.uid, requesterId);
+      }
+      setActivity(prev => prev ? {
+        ...prev,
+        pendingParticipantIds: (prev.pendingParticipantIds ?? []).filter(id => id !== requesterId),
+        participantIds: approve ? [...prev.participantIds, requesterId] : prev.participantIds,
+      } : prev);
+      toast.success(approve ? "Request approved" : "Request declined");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to respond to request");
+    } finally {
+      setRespondingTo(null);
+    }
+  }, [activity, user, respondingTo, approveJoinRequest, denyJoinRequest]);
+
+  const handleToggleWaitlist = useCallback(async () => {
+    if (!activity || !user || updatingWaitlist) return;
+    try {
+      setUpdatingWaitlist(true);
+      if (waitlistPosition !== null) {
+        await leaveWaitlist(activity.id, user.uid);
+        toast.success("You have left the waitlist");
+      } else {
+        await joinWaitlist(activity.id, user.uid);
+        toast.success("You're on the waitlist! We'll notify you if a spot opens up.");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update waitlist");
+    } finally {
+      setUpdatingWaitlist(false);
+    }
+  }, [activity, user, updatingWaitlist, waitlistPosition, joinWaitlist, leaveWaitlist]);
+
+  const handleCancelActivity = useCallback(async () => {
+    if (!activity || !user || isCancelling) return;
+    try {
+      setIsCancelling(true);
+      await cancelActivity(activity.id, user.uid, cancelReason);
+      const reason = cancelReason.trim() || undefined;
+      setActivity(prev => prev ? { ...prev, status: "cancelled", cancellationReason: reason, cancelledAt: Timestamp.now() } : prev);
+      toast.success("Activity cancelled. Participants have been notified.");
+      setShowCancelDialog(false);
+      setCancelReason("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel activity");
+      setShowCancelDialog(false);
+    } finally {
+      setIsCancelling(false);
+    }
+  }, [activity, user, isCancelling, cancelReason, cancelActivity]);
+
+  const handleRestoreActivity = useCallback(async () => {
+    if (!activity || !user || isRestoring) return;
+    try {
+      setIsRestoring(true);
+      await uncancelActivity(activity.id, user.uid);
+      setActivity(prev => prev ? { ...prev, status: "active", cancellationReason: undefined, cancelledAt: undefined } : prev);
+      toast.success("Activity restored");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to restore activity");
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [activity, user, isRestoring, uncancelActivity]);
+
+  const handleToggleCoHost = useCallback(async (participantId: string, makeHost: boolean) => {
+    if (!activity || updatingRoleFor) return;
+    try {
+      setUpdatingRoleFor(participantId);
+      await setActivityHost(activity.id, participantId, makeHost);
+      setActivity(prev => prev ? { ...prev, hostIds: makeHost ? [...(prev.hostIds ?? []), participantId] : (prev.hostIds ?? []).filter(id => id !== participantId) } : prev);
+      toast.success(makeHost ? "Co-host added" : "Co-host removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update co-hosts");
+    } finally {
+      setUpdatingRoleFor(null);
+    }
+  }, [activity, updatingRoleFor, setActivityHost]);
+
+  const handleTransferOwnership = useCallback(async () => {
+    if (!activity || !user || !transferTarget || updatingRoleFor) return;
     try {
-      setIsDeleting(true);
-      await deleteActivity(activity.id, user.uid);
-      toast.success("Activity deleted successfully");
-      navigate("/feed");
+      setUpdatingRoleFor(transferTarget.id);
+      await transferOwnership(activity.id, transferTarget.id);
+      setActivity(prev => prev ? { ...prev, createdBy: { userId: transferTarget.id, displayName: transferTarget.name }, hostIds: [...(prev.hostIds ?? []).filter(id => id !== transferTarget.id), user.uid] } : prev);
+      toast.success(`${transferTarget.name} is now the organizer`);
     } catch (error) {
-      toast.error(error instanceof Error ? error.message : "Failed to delete activity");
-      setShowDeleteDialog(false);
+      toast.error(error instanceof Error ? error.message : "Failed to transfer ownership");
     } finally {
-      setIsDeleting(false);
+      setUpdatingRoleFor(null);
+      setTransferTarget(null);
     }
-  }, [activity, user, isDeleting, deleteActivity, navigate]);
+  }, [activity, user, transferTarget, updatingRoleFor, transferOwnership]);
+
+  const handleInviteFriends = useCallback(async (friendIds: string[]) => {
+    if (!activity) return;
+    try {
+      const invited = await inviteFriends(activity.id, friendIds);
+      toast.success(invited > 0 ? `Invited ${invited} friend${invited === 1 ? "" : "s"}` : "Everyone you picked was already invited");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send invitations");
+    }
+  }, [activity, inviteFriends]);
+
+  const handleRespondToInvitation = useCallback(async (accept: boolean) => {
+    if (!invitation || respondingToInvite) return;
+    try {
+      setRespondingToInvite(true);
+      const joinStatus = await respondToInvitation(invitation.id, accept);
+      if (accept) {
+        toast.success(joinStatus === "waitlisted" ? "The activity is full, you're on the waitlist" : "You have joined the activity!");
+      } else {
+        toast.success("Invitation declined");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to respond to invitation");
+    } finally {
+      setRespondingToInvite(false);
+    }
+  }, [invitation, respondingToInvite, respondToInvitation]);
 
   const handleSendFriendRequest = useCallback(async () => {
     if (!activity || !user || sendingRequest) return;
@@ -234,11 +519,6 @@ const ActivityDetailsContent = () => {
     return name.split(' ').map(part => part[0]).join('').toUpperCase();
   }, []);
 
-  const getCategoryColorClass = useCallback((category: string) => {
-    // Your category color logic
-    return "bg-primary/10 text-primary";
-  }, []);
-
   if (isLoading || (!activity && !triedLookup)) {
     return <div className="container mx-auto px-4 py-8 flex justify-center items-center"><Loader2 className="h-6 w-6 animate-spin" /></div>;
   }
@@ -247,6 +527,110 @@ const ActivityDetailsContent = () => {
     return <div className="container mx-auto px-4 py-8 flex justify-center items-center"><p>Activity not found.</p></div>;
   }
 
+  const joinAction = getJoinAction({
+    closed: userIsCreator || isCancelled || !!activity.archived,
+    participant: userIsParticipant,
+    invited: !!invitation,
+    inviteLinkValid,
+    waitlisted: waitlistPosition !== null,
+    pending: userIsPending,
+    canJoin: canJoinActivity,
+    full: isFull,
+    requiresApproval: !!activity.requiresApproval,
+  });
+
+  const renderJoinAction = () => {
+    switch (joinAction) {
+      case "none":
+        return null;
+      case "leave":
+        return (
+          <Button variant="outline" className="rounded-full bg-red-100 hover:bg-red-200 text-red-600 border-red-200" onClick={handleLeave} disabled={leaving}>
+            {leaving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Leaving...</> : "Leave Activity"}
+          </Button>
+        );
+      case "invitation":
+        return (
+          <>
+            <Button className="rounded-full" onClick={() => handleRespondToInvitation(true)} disabled={respondingToInvite}>
+              {respondingToInvite ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserCheck className="mr-2 h-4 w-4" />}Accept Invitation
+            </Button>
+            <Button className="rounded-full" variant="outline" onClick={() => handleRespondToInvitation(false)} disabled={respondingToInvite}>Decline</Button>
+          </>
+        );
+      case "inviteLink":
+        return (
+          <Button className="rounded-full" onClick={handleJoinWithInviteLink} disabled={joining}>
+            {joining ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Joining...</> : <><Link2 className="mr-2 h-4 w-4" />Join with Invite Link</>}
+          </Button>
+        );
+      case "waitlisted":
+        return (
+          <Button variant="outline" className="rounded-full" onClick={handleToggleWaitlist} disabled={updatingWaitlist}>
+            {updatingWaitlist ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Clock className="mr-2 h-4 w-4" />}Waitlist #{waitlistPosition} · Leave
+          </Button>
+        );
+      case "pending":
+        return (<Button className="rounded-full" variant="outline" disabled><Clock className="mr-2 h-4 w-4" />Request Sent</Button>);
+      case "joinWaitlist":
+        return (
+          <Button className="rounded-full" variant="secondary" onClick={handleToggleWaitlist} disabled={updatingWaitlist}>
+            {updatingWaitlist
+              ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Joining...</>
+              : `Activity Full · Join Waitlist${activity.waitlistIds?.length ? ` (${activity.waitlistIds.length} waiting)` : ""}`}
+          </Button>
+        );
+      case "join":
+        return (
+          <Button className="rounded-full" onClick={handleJoin} disabled={joining || isFull}>
+            {joining
+              ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Joining...</>
+              : isFull ? "Activity Full" : activity.requiresApproval ? "Ask to Join" : "Join Activity"}
+          </Button>
+        );
+      case "private":
+        return (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild><Button className="rounded-full" variant="secondary" disabled>Private Activity</Button></TooltipTrigger>
+              <TooltipContent>This activity is only visible to friends of the creator</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        );
+    }
+  };
+
+  // Organizer only: restore within the window, otherwise offer to cancel
+  const renderStatusAction = () => {
+    if (isCancelled) {
+      return canRestore && (
+        <Button variant="outline" className="bg-green-100 hover:bg-green-200 text-green-700 border-green-200" onClick={handleRestoreActivity} disabled={isRestoring}>
+          {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}Restore Activity
+        </Button>
+      );
+    }
+    return (
+      <AlertDialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" className="bg-red-100 hover:bg-red-200 text-red-600 border-red-200">Cancel Activity</Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this activity?</AlertDialogTitle>
+            <AlertDialogDescription>All participants will be notified and see the activity as cancelled. The chat stays open, and you can restore the activity within {UNCANCEL_WINDOW_MS / (60 * 60 * 1000)} hours if it hasn't started yet.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea placeholder="Reason (optional)" value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} maxLength={300} />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Activity</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); handleCancelActivity(); }} className="bg-red-600 hover:bg-red-700 text-white" disabled={isCancelling}>
+              {isCancelling ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Cancelling...</> : "Cancel Activity"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    );
+  };
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
       <div className="mb-6">
@@ -256,10 +640,9 @@ const ActivityDetailsContent = () => {
         </Button>
       </div>
       <Card className="mb-8 overflow-hidden rounded-3xl border-border/40">
-        <div className={`h-28 w-full flex items-center justify-center ${getCategoryColorClass(activity.category)}`}>
-          <Badge className={`${getCategoryColorClass(activity.category)} text-lg px-4 py-2`}>
-            {activity.category}
-          </Badge>
+        <div className="relative">
+          <ActivityCover activity={activity} className="h-48 md:h-64" sizes="(min-width: 1024px) 960px, 100vw" />
+          <CategoryBadge category={activity.category} className="absolute bottom-3 left-4 text-lg px-4 py-2" />
         </div>
         <CardHeader className="pb-0">
           <div className="flex flex-col md:flex-row justify-between items-start gap-4">
@@ -267,8 +650,8 @@ const ActivityDetailsContent = () => {
               <h1 className="text-2xl font-semibold">{activity.title}</h1>
               <div className="flex items-center mt-2">
                 <TooltipProvider><Tooltip>
-                  <TooltipTrigger asChild><Badge variant="outline" className="flex gap-1 items-center">{activity.isPublic !== false ? <><Globe className="h-3 w-3" /><span>Public</span></> : <><Lock className="h-3 w-3" /><span>Friends Only</span></>}</Badge></TooltipTrigger>
-                  <TooltipContent>{activity.isPublic !== false ? "Anyone can see and join" : "Only friends can see and join"}</TooltipContent>
+                  <TooltipTrigger asChild><Badge variant="outline" className="flex gap-1 items-center">{activity.unlisted ? <><Link2 className="h-3 w-3" /><span>Unlisted</span></> : activity.isPublic !== false ? <><Globe className="h-3 w-3" /><span>Public</span></> : <><Lock className="h-3 w-3" /><span>Friends Only</span></>}</Badge></TooltipTrigger>
+                  <TooltipContent>{activity.unlisted ? "Hidden from the Feed; people join with an invite link" : activity.isPublic !== false ? "Anyone can see and join" : "Only friends can see and join"}</TooltipContent>
                 </Tooltip></TooltipProvider>
               </div>
             </div>
@@ -283,29 +666,84 @@ const ActivityDetailsContent = () => {
           </div>
         </CardHeader>
         <CardContent className="py-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div className="col-span-2"><p className="text-muted-foreground whitespace-pre-wrap">{activity.description}</p></div>
-            <div className="space-y-3 bg-muted/5 p-3 rounded-lg">
-              <div>
-                <div className="flex items-center text-sm"><CalendarIcon className="mr-2 h-4 w-4 text-muted-foreground" /><span>{formattedDateTime.date}</span></div>
-                <div className="flex items-center text-sm mt-1"><Clock className="mr-2 h-4 w-4 text-muted-foreground" /><span>{formattedDateTime.time}</span></div>
-              </div>
-              <div><div className="flex items-center text-sm"><MapPinIcon className="mr-2 h-4 w-4 text-muted-foreground" /><span>{activity.location}</span></div></div>
-              <div>
-                <div className="flex items-center"><UsersIcon className="mr-2 h-4 w-4 text-muted-foreground" /><span className="text-sm">{activity.participantIds.length} participating{activity.maxParticipants && (<> (max {activity.maxParticipants})</>)}</span></div>
-                <Button variant="outline" size="sm" className="mt-2 w-full" onClick={() => setParticipantsDialogOpen(true)}>View Participants</Button>
+          {isCancelled && <CancelledBanner reason={activity.cancellationReason} className="mb-4" />}
+          <Tabs defaultValue="details">
+            <TabsList className="mb-4"><TabsTrigger value="details">Details</TabsTrigger><TabsTrigger value="album">Album</TabsTrigger>{(userIsParticipant || userIsHost) && (<TabsTrigger value="history">History</TabsTrigger>)}</TabsList>
+            <TabsContent value="details">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="col-span-2">
+                  <p className="text-muted-foreground whitespace-pre-wrap">{activity.description}</p>
+                  {activity.tags && activity.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-4">
+                      {activity.tags.map((tag) => (<Badge key={tag} variant="secondary" className="cursor-pointer" onClick={() => navigate(`/feed?tag=${encodeURIComponent(tag)}`)}>#{tag}</Badge>))}
+                    </div>
+                  )}
+                  {isScheduling && (<div className="mt-4"><DatePoll activity={activity} userId={user.uid} participants={participants} canVote={userIsParticipant} canLock={userIsHost} /></div>)}
+                </div>
+                <div className="space-y-3 bg-muted/5 p-3 rounded-lg">
+                  {isScheduling ? (
+                    <div className="flex items-center text-sm"><CalendarIcon className="mr-2 h-4 w-4 text-muted-foreground" /><span>Date to be decided by vote</span></div>
+                  ) : (
+                  <div>
+                    <div className="flex items-center text-sm"><CalendarIcon className="mr-2 h-4 w-4 text-muted-foreground" /><span>{formattedDateTime.date}</span></div>
+                    <div className="flex items-center text-sm mt-1"><Clock className="mr-2 h-4 w-4 text-muted-foreground" /><span>{formattedDateTime.time}</span></div>
+                    <Button variant="outline" size="sm" className="mt-2 w-full" onClick={() => downloadActivityIcs(activity)}><CalendarPlus className="mr-2 h-4 w-4" />Add to Calendar</Button>
+                  </div>
+                  )}
+                  {activity.archived && activityRating !== null && (<div className="flex items-center gap-2 text-sm"><StarRating value={activityRating} size="sm" /><span className="text-muted-foreground">{activityRating.toFixed(1)} from {activity.ratingCount} review{activity.ratingCount === 1 ? "" : "s"}</span></div>)}
+                  <div><div className="flex items-center text-sm"><MapPinIcon className="mr-2 h-4 w-4 text-muted-foreground" /><span>{activity.location}</span></div></div>
+                  <div>
+                    <div className="flex items-center"><UsersIcon className="mr-2 h-4 w-4 text-muted-foreground" /><span className="text-sm">{rsvpCounts.going} going{activity.maxParticipants && (<> (max {activity.maxParticipants})</>)}{rsvpCounts.maybe > 0 && <> · {rsvpCounts.maybe} maybe</>}{rsvpCounts.declined > 0 && <> · {rsvpCounts.declined} can't go</>}</span></div>
+                    {!userIsCreator && !isCancelled && (canJoinActivity || myRsvp !== null) && (<div className="mt-2"><p className="text-xs text-muted-foreground mb-1">Your RSVP</p><div className="grid grid-cols-3 gap-1">{(["going", "maybe", "declined"] as RsvpStatus[]).map((status) => (<Button key={status} size="sm" variant={myRsvp === status ? "default" : "outline"} onClick={() => handleRsvp(status)} disabled={updatingRsvp !== null || (status === "going" && (userIsPending || waitlistPosition !== null))}>{updatingRsvp === status ? <Loader2 className="h-4 w-4 animate-spin" /> : status === "going" ? "Going" : status === "maybe" ? "Maybe" : "Can't go"}</Button>))}</div></div>)}
+                    {userIsParticipant && !userIsCreator && (activity.attendedIds ?? []).includes(user.uid) && (<div className="flex items-center text-sm text-green-700 mt-2"><CircleCheck className="mr-2 h-4 w-4" />You're checked in</div>)}
+                    <Button variant="outline" size="sm" className="mt-2 w-full" onClick={() => setParticipantsDialogOpen(true)}>View Participants</Button>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+            </TabsContent>
+            <TabsContent value="album"><PhotoAlbum activityId={activity.id} canUpload={userIsParticipant} canModerate={userIsHost} /></TabsContent>
+            {(userIsParticipant || userIsHost) && (<TabsContent value="history"><EditHistory activityId={activity.id} /></TabsContent>)}
+          </Tabs>
         </CardContent>
         <CardFooter className="pt-0 flex justify-between">
           <div className="flex gap-2">
+            {canReview && (<Button className="rounded-full" variant={(activity.reviewerIds ?? []).includes(user.uid) ? "outline" : "default"} onClick={() => setReviewDialogOpen(true)}><Star className="mr-2 h-4 w-4" />{(activity.reviewerIds ?? []).includes(user.uid) ? "Edit Review" : "Rate Activity"}</Button>)}
             {userIsParticipant && (<Button className="rounded-full" variant="secondary" onClick={() => navigate(`/chat-detail?activityId=${activity.id}&activityName=${encodeURIComponent(activity.title)}`)}><MessageSquare className="mr-2 h-4 w-4" />Chat</Button>)}
-            {!userIsCreator && (userIsParticipant ? (<Button variant="outline" className="rounded-full bg-red-100 hover:bg-red-200 text-red-600 border-red-200" onClick={handleLeave} disabled={leaving}>{leaving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Leaving...</> : ("Leave Activity")}</Button>) : canJoinActivity ? (<Button className="rounded-full" onClick={handleJoin} disabled={joining || (activity.maxParticipants && activity.participantIds.length >= activity.maxParticipants)}>{joining ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Joining...</> : activity.maxParticipants && activity.participantIds.length >= activity.maxParticipants ? ("Activity Full") : ("Join Activity")}</Button>) : (<TooltipProvider><Tooltip><TooltipTrigger asChild><Button className="rounded-full" variant="secondary" disabled>Private Activity</Button></TooltipTrigger><TooltipContent>This activity is only visible to friends of the creator</TooltipContent></Tooltip></TooltipProvider>))}
+            {renderJoinAction()}
           </div>
-          {userIsCreator && (<div className="flex gap-2"><Button variant="outline" className="bg-blue-100 hover:bg-blue-200 text-blue-600 border-blue-200" onClick={() => navigate(`/edit-activity?id=${activity.id}`)}>Edit Activity</Button><AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}><AlertDialogTrigger asChild><Button variant="outline" className="bg-red-100 hover:bg-red-200 text-red-600 border-red-200">Delete Activity</Button></AlertDialogTrigger><AlertDialogContent><AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This will permanently delete the activity and remove it from the feed. All participants will be notified and the activity chat will be deleted. This action cannot be undone.</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={handleDeleteActivity} className="bg-red-600 hover:bg-red-700 text-white" disabled={isDeleting}>{isDeleting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Deleting...</> : "Delete Activity"}</AlertDialogAction></AlertDialogFooter></AlertDialogContent></AlertDialog></div>)}
+          {userIsHost && (
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="outline" className="bg-blue-100 hover:bg-blue-200 text-blue-600 border-blue-200" onClick={() => navigate(`/edit-activity?id=${activity.id}`)}>Edit Activity</Button>
+              {!isCancelled && (<Button variant="outline" onClick={() => setInviteDialogOpen(true)}><UserPlus className="mr-2 h-4 w-4" />Invite</Button>)}
+              {!isCancelled && (<Button variant="outline" onClick={() => setLinksDialogOpen(true)}><Link2 className="mr-2 h-4 w-4" />Share Link</Button>)}
+              {isCheckInOpen(activity) && (<Button variant="outline" onClick={() => setCheckInDialogOpen(true)}><QrCode className="mr-2 h-4 w-4" />Check-in</Button>)}
+              <Button variant="outline" onClick={() => navigate(`/create?from=${activity.id}`)}><Copy className="mr-2 h-4 w-4" />Duplicate</Button>
+              <Button variant="outline" onClick={() => setTemplateDialogOpen(true)}><BookmarkPlus className="mr-2 h-4 w-4" />Save as Template</Button>
+              {userIsCreator && renderStatusAction()}
+            </div>
+          )}
         </CardFooter>
       </Card>
+      {userIsHost && pendingUsers.length > 0 && (
+        <Card className="mb-8 rounded-3xl border-border/40">
+          <CardHeader className="pb-2"><h2 className="text-lg font-semibold">Join Requests ({pendingUsers.length})</h2></CardHeader>
+          <CardContent className="space-y-3">
+            {pendingUsers.map((pendingUser) => (<div key={pendingUser.id} className="flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-muted/20">
+              <div className="flex items-center gap-3 min-w-0">
+                <Avatar>{pendingUser.photoURL ? (<AvatarImage src={pendingUser.photoURL} alt={pendingUser.name} />) : null}<AvatarFallback>{getInitials(pendingUser.name)}</AvatarFallback></Avatar>
+                <div className="min-w-0">
+                  <Button variant="link" className="p-0 h-auto font-medium truncate" onClick={() => navigate(`/other-profile?userId=${pendingUser.id}`)}>{pendingUser.name}</Button>
+                  {(pendingUser.attendedCount || pendingUser.noShowCount) ? (<p className="text-xs text-muted-foreground">Attended {pendingUser.attendedCount ?? 0} · No-shows {pendingUser.noShowCount ?? 0}</p>) : null}
+                </div>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button size="sm" onClick={() => handleRespondToRequest(pendingUser.id, true)} disabled={respondingTo !== null}>{respondingTo === pendingUser.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <><UserCheck className="mr-1 h-4 w-4" />Approve</>}</Button>
+                <Button size="sm" variant="outline" onClick={() => handleRespondToRequest(pendingUser.id, false)} disabled={respondingTo !== null}><UserX className="mr-1 h-4 w-4" />Deny</Button>
+              </div>
+            </div>))}
+          </CardContent>
+        </Card>
+      )}
       <Dialog open={participantsDialogOpen} onOpenChange={setParticipantsDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader><DialogTitle className="text-lg">Participants</DialogTitle></DialogHeader>
@@ -313,15 +751,30 @@ const ActivityDetailsContent = () => {
             {participants.length > 0 ? (<ScrollArea className="h-[300px] pr-4"><div className="space-y-3">
               {participants.map((participant) => (<div key={participant.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/20">
                 <Avatar>{participant.photoURL ? (<AvatarImage src={participant.photoURL} alt={participant.name} />) : null}<AvatarFallback>{getInitials(participant.name)}</AvatarFallback></Avatar>
-                <div>
-                  <p className="font-medium">{participant.name || `User-${participant.id.substring(0, 5)}`}</p>
-                  {participant.id === activity.createdBy.userId && (<p className="text-xs text-muted-foreground">Organizer</p>)}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{participant.name || `User-${participant.id.substring(0, 5)}`}</p>
+                  {participant.id === activity.createdBy.userId ? (<p className="text-xs text-muted-foreground">Organizer</p>) : (activity.hostIds ?? []).includes(participant.id) && (<p className="text-xs text-muted-foreground">Co-host</p>)}
                 </div>
+                {userIsCreator && participant.id !== user.uid && (<div className="flex gap-1 flex-shrink-0">
+                  <TooltipProvider><Tooltip><TooltipTrigger asChild><Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleToggleCoHost(participant.id, !(activity.hostIds ?? []).includes(participant.id))} disabled={updatingRoleFor !== null}>{updatingRoleFor === participant.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className={`h-4 w-4 ${(activity.hostIds ?? []).includes(participant.id) ? "text-primary" : "text-muted-foreground"}`} />}</Button></TooltipTrigger><TooltipContent>{(activity.hostIds ?? []).includes(participant.id) ? "Remove co-host" : "Make co-host"}</TooltipContent></Tooltip></TooltipProvider>
+                  <TooltipProvider><Tooltip><TooltipTrigger asChild><Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setTransferTarget({ id: participant.id, name: participant.name || `User-${participant.id.substring(0, 5)}` })} disabled={updatingRoleFor !== null}><Crown className="h-4 w-4 text-muted-foreground" /></Button></TooltipTrigger><TooltipContent>Make organizer</TooltipContent></Tooltip></TooltipProvider>
+                </div>)}
               </div>))}
             </div></ScrollArea>) : (<p className="text-center py-8 text-muted-foreground">No participants yet</p>)}
           </div>
         </DialogContent>
       </Dialog>
+      {userIsHost && <InviteLinksDialog activityId={activity.id} open={linksDialogOpen} onOpenChange={setLinksDialogOpen} />}
+      {canReview && <ReviewDialog activity={activity} open={reviewDialogOpen} onOpenChange={setReviewDialogOpen} />}
+      {userIsHost && <SaveTemplateDialog activity={activity} open={templateDialogOpen} onOpenChange={setTemplateDialogOpen} />}
+      {userIsHost && <CheckInDialog activity={activity} participants={participants} open={checkInDialogOpen} onOpenChange={setCheckInDialogOpen} />}
+      <InviteFriendsDialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen} excludeIds={activity.participantIds} onConfirm={handleInviteFriends} />
+      <AlertDialog open={transferTarget !== null} onOpenChange={(open) => { if (!open) setTransferTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader><AlertDialogTitle>Transfer ownership?</AlertDialogTitle><AlertDialogDescription>{transferTarget?.name} will become the organizer of this activity. You'll stay on as a co-host and can leave the activity afterwards.</AlertDialogDescription></AlertDialogHeader>
+          <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={(e) => { e.preventDefault(); handleTransferOwnership(); }} disabled={updatingRoleFor !== null}>{updatingRoleFor ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Transferring...</> : "Transfer"}</AlertDialogAction></AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
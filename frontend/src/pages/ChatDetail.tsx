@@ -7,7 +7,7 @@ import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Layout } from "components/Layout";
 import { useUserGuardContext } from "app"; // Assuming 'app' provides this context
-import { MessageSquare, Loader2, Send, ArrowLeft, RefreshCw } from "lucide-react";
+import { MessageSquare, Loader2, Send, ArrowLeft, RefreshCw, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { formatTime } from "../utils/formatTime";
 
@@ -16,8 +16,9 @@ import { ref, set, onValue, push, off, Database, connectDatabaseEmulator, DataSn
 
 import { realtimeDb, firestore} from "../utils/firebase"; // Ensure these are initialized firebase app instances
 import { useChatStore } from "../utils/chatStore";
-import { doc, updateDoc, Timestamp as FirestoreTimestamp } from "firebase/firestore"; // Import Timestamp from firestore
-import { useActivityStore } from '../utils/activityStore';  // adjust path
+import { doc, updateDoc, onSnapshot, Timestamp as FirestoreTimestamp } from "firebase/firestore"; // Import Timestamp from firestore
+import { useActivityStore, isActivityHost, Activity } from '../utils/activityStore';  // adjust path
+import CancelledBanner from "components/CancelledBanner";
 
 // Simplified chat message interface
 interface ChatMessage {
@@ -66,6 +67,19 @@ export default function ChatDetail() {
       }
   }, [activityId, navigate]); // Add activityId and navigate to dependencies
 
+  // Cancellation and host changes can happen while the chat is open
+  const [cancellation, setCancellation] = useState<{ reason?: string } | null>(null);
+  const [canModerate, setCanModerate] = useState(false);
+  useEffect(() => {
+    if (!activityId) return;
+    const unsubscribe = onSnapshot(doc(firestore, "activities", activityId), (snap) => {
+      const data = snap.data();
+      setCancellation(data?.status === "cancelled" ? { reason: data.cancellationReason ?? undefined } : null);
+      setCanModerate(!!data && isActivityHost(data as Activity, user.uid));
+    });
+    return () => unsubscribe();
+  }, [activityId, user.uid]);
+
   // Only render the redirect message if activityId is truly missing initially
   if (!activityId) {
     return <Layout>Redirecting...</Layout>;
@@ -87,6 +101,8 @@ export default function ChatDetail() {
           <h1 className="text-2xl font-semibold">{activityName}</h1>
         </div>
 
+        {cancellation && <CancelledBanner reason={cancellation.reason} className="mb-4" />}
+
         <Card className="border shadow-sm">
           <CardHeader className="bg-primary/5 border-b px-4 py-3">
             <div className="flex items-center justify-between">
@@ -99,7 +115,7 @@ export default function ChatDetail() {
 
           <CardContent className="p-0">
             {/* activityId check already done above, but keeping for clarity */}
-            {activityId && <SimpleChatInterface activityId={activityId} />}
+            {activityId && <SimpleChatInterface activityId={activityId} canModerate={canModerate} />}
           </CardContent>
         </Card>
       </div>
@@ -109,9 +125,11 @@ export default function ChatDetail() {
 
 interface SimpleChatInterfaceProps {
   activityId: string;
+  // Hosts and co-hosts can remove anyone's messages
+  canModerate?: boolean;
 }
 
-const SimpleChatInterface: React.FC<SimpleChatInterfaceProps> = ({ activityId }) => {
+const SimpleChatInterface: React.FC<SimpleChatInterfaceProps> = ({ activityId, canModerate = false }) => {
   const { user } = useUserGuardContext();
   const [messageText, setMessageText] = useState("");
   const [sending, setSending] = useState(false);
@@ -358,6 +376,15 @@ const SimpleChatInterface: React.FC<SimpleChatInterfaceProps> = ({ activityId })
   };
 
 
+  // Remove a message (own messages, or anyone's for hosts); the listener drops it from the list
+  const handleDeleteMessage = async (messageId: string) => {
+    try {
+      await useChatStore.getState().deleteMessage(activityId, messageId);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete message');
+    }
+  };
+
   // Handle enter key press
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -477,10 +504,17 @@ const SimpleChatInterface: React.FC<SimpleChatInterfaceProps> = ({ activityId })
                     <p className="whitespace-pre-wrap break-words">{message.text}</p>
                   </div>
 
-                  <p className="text-xs text-muted-foreground text-right">
-                    {/* formatTime expects a number (timestamp) */}
-                    {formatTime(message.timestamp)}
-                  </p>
+                  <div className="flex items-center justify-end gap-1">
+                    {(isMine || canModerate) && (
+                      <Button variant="ghost" size="icon" className="h-5 w-5" onClick={() => handleDeleteMessage(message.id)} aria-label="Delete message">
+                        <Trash2 className="h-3 w-3 text-muted-foreground" />
+                      </Button>
+                    )}
+                    <p className="text-xs text-muted-foreground text-right">
+                      {/* formatTime expects a number (timestamp) */}
+                      {formatTime(message.timestamp)}
+                    </p>
+                  </div>
                 </div>
               </div>
             );
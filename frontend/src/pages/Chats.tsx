@@ -9,6 +9,7 @@ import { firestore } from "../utils/firebase";
 // Removed Activity type import from types, defined inline or ensure it matches Firestore data
 import { MessageSquare, Users, MapPin, Calendar, ChevronRight, Loader2 } from "lucide-react";
 import { formatDate } from "../utils/formatDate"; // Ensure this utility exists and works
+import { toDate } from "../utils/dateTime";
 import { Badge } from "@/components/ui/badge";
 // Removed Separator import as it wasn't used
 import { useChatStore } from "../utils/chatStore";
@@ -121,17 +122,11 @@ export default function Chats() {
     navigate(`/chat-detail?activityId=${activity.id}&activityName=${encodeURIComponent(activity.title)}`);
   };
 
-  const renderFormattedDate = (timestamp: FirestoreTimestamp | string | undefined): string => {
+  const renderFormattedDate = (timestamp: FirestoreTimestamp | undefined): string => {
     try {
-      if (!timestamp) return "No Date";
-  
-      const date =
-        typeof timestamp === "string"
-          ? new Date(timestamp)
-          : typeof timestamp.toDate === "function"
-          ? timestamp.toDate()
-          : new Date(); // fallback
-  
+      const date = toDate(timestamp);
+      if (!date) return "No Date";
+
       return formatDate(date);
     } catch (e) {
       console.error("Error formatting date:", e, timestamp);
@@ -1,13 +1,23 @@
 // src/pages/Create.tsx
 
-import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Layout } from "components/Layout";
 import { useUserGuardContext } from "app";
-import { useActivityStore, NewActivity } from "../utils/activityStore"; // Import NewActivity type
+import { useActivityStore, NewActivity, toActivity, DateOption, MIN_DATE_OPTIONS, MAX_DATE_OPTIONS } from "../utils/activityStore"; // Import NewActivity type
 import { toast } from "sonner";
 import LocationAutocomplete from "components/LocationAutocomplete";
-import { Timestamp } from "firebase/firestore"; // <-- 1. Import Timestamp
+import InviteFriendsDialog from "components/InviteFriendsDialog";
+import CoverImagePicker, { CoverSelection } from "components/CoverImagePicker";
+import TagInput from "components/TagInput";
+import CategoryIcon from "components/CategoryIcon";
+import { useInvitationStore } from "../utils/invitationStore";
+import { useTemplateStore, templateFromActivity, ActivityTemplateFields } from "../utils/templateStore";
+import { useDraftStore } from "../utils/draftStore";
+import { UserPlus, Trash2, Plus, X } from "lucide-react";
+import { Timestamp, doc, getDoc } from "firebase/firestore"; // <-- 1. Import Timestamp
+import { firestore } from "../utils/firebase";
+import { RecurrenceFrequency, MAX_SERIES_OCCURRENCES } from "../utils/recurrence";
 
 // UI components
 import { Button } from "@/components/ui/button";
@@ -29,25 +39,38 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { ActivityCategory } from "./Feed";
-
-export const activityCategories: ActivityCategory[] = [
-  "Sports",
-  "Dining",
-  "Hiking",
-  "Gaming",
-  "Movies",
-  "Travel",
-  "Music",
-  "Cooking",
-  "Hangout",
-];
+import { ActivityCategory, useCategoryStore } from "../utils/categoryStore";
+
+// Quiet period after the last keystroke before the draft is written
+const DRAFT_AUTOSAVE_DELAY_MS = 1500;
 
 export default function Create() {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Set when resuming from MyActivities › Drafts
+  const resumeDraftId = searchParams.get("draft");
+  // Set by the "Duplicate" action on an activity
+  const duplicateFromId = searchParams.get("from");
   const { user } = useUserGuardContext();
-  const { createActivity } = useActivityStore();
+  const { createActivity, createActivitySeries } = useActivityStore();
+  const inviteFriends = useInvitationStore((s) => s.inviteFriends);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Friends picked on the form; invited once the activity exists
+  const [inviteeIds, setInviteeIds] = useState<string[]>([]);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [cover, setCover] = useState<CoverSelection>({ file: null, image: null, preset: null });
+  const [tags, setTags] = useState<string[]>([]);
+  const categories = useCategoryStore((s) => s.categories);
+  const { templates, subscribeToTemplates, deleteTemplate } = useTemplateStore();
+  const [templateId, setTemplateId] = useState("");
+  const { newDraftId, getDraft, saveDraft, deleteDraft } = useDraftStore();
+  // Assigned on the first autosave unless a draft was resumed
+  const draftIdRef = useRef<string | null>(resumeDraftId);
+  // Stops autosave once the activity is being published
+  const publishingRef = useRef(false);
+  // A resumed draft must be loaded before autosave may overwrite it
+  const [draftReady, setDraftReady] = useState(!resumeDraftId);
+  const [draftStatus, setDraftStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
 
   const [formData, setFormData] = useState({
     title: "",
@@ -59,9 +82,119 @@ export default function Create() {
     category: "" as ActivityCategory,
     maxParticipants: "" as string | number,
     isPublic: true,
+    unlisted: false,
     requiresApproval: false, // Added requiresApproval to form state
+    repeat: "none" as "none" | RecurrenceFrequency,
+    repeatEnd: "count" as "count" | "until",
+    repeatCount: 4 as string | number,
+    repeatUntil: "",
+    // Date poll instead of a fixed date; pollOptions are datetime-local values
+    scheduling: false,
+    pollOptions: ["", ""] as string[],
   });
 
+  // Prefills every field but the date, which is picked fresh each time
+  const applyTemplate = (fields: ActivityTemplateFields) => {
+    setFormData((prev) => ({
+      ...prev,
+      title: fields.title,
+      description: fields.description,
+      location: fields.location,
+      latitude: fields.latitude,
+      longitude: fields.longitude,
+      category: fields.category,
+      maxParticipants: fields.maxParticipants ?? "",
+      isPublic: fields.isPublic,
+      unlisted: fields.unlisted,
+      requiresApproval: fields.requiresApproval,
+    }));
+    setTags(fields.tags ?? []);
+    setCover({ file: null, image: fields.coverImage ?? null, preset: fields.coverPreset ?? null });
+  };
+
+  useEffect(() => {
+    const unsubscribe = subscribeToTemplates(user.uid);
+    return () => unsubscribe();
+  }, [user.uid, subscribeToTemplates]);
+
+  useEffect(() => {
+    if (!duplicateFromId) return;
+    getDoc(doc(firestore, "activities", duplicateFromId))
+      .then((snap) => {
+        if (!snap.exists()) {
+          toast.error("Activity not found");
+          return;
+        }
+        applyTemplate(templateFromActivity(toActivity(snap.id, snap.data())));
+        toast.success("Details copied. Pick a date for the new activity.");
+      })
+      .catch((error) => {
+        console.error("Error loading activity to duplicate:", error);
+        toast.error("Failed to load the activity to duplicate");
+      });
+  }, [duplicateFromId]);
+
+  useEffect(() => {
+    if (!resumeDraftId) return;
+    getDraft(user.uid, resumeDraftId)
+      .then((draft) => {
+        if (!draft) {
+          toast.error("Draft not found");
+          draftIdRef.current = null;
+          return;
+        }
+        const { id, updatedAt, tags: draftTags, coverImage, coverPreset, inviteeIds: draftInvitees, ...fields } = draft;
+        setFormData((prev) => ({ ...prev, ...fields, scheduling: fields.scheduling ?? false, pollOptions: fields.pollOptions ?? prev.pollOptions }));
+        setTags(draftTags ?? []);
+        setCover({ file: null, image: coverImage ?? null, preset: coverPreset ?? null });
+        setInviteeIds(draftInvitees ?? []);
+      })
+      .catch((error) => {
+        console.error("Error loading draft:", error);
+        toast.error("Failed to load draft");
+      })
+      .finally(() => setDraftReady(true));
+  }, []);
+
+  // Autosave once there's something worth keeping
+  useEffect(() => {
+    if (!draftReady || publishingRef.current) return;
+    if (!formData.title.trim() && !formData.description.trim() && !formData.location.trim()) return;
+    const timer = setTimeout(() => {
+      if (publishingRef.current) return;
+      let draftId = draftIdRef.current;
+      if (!draftId) {
+        draftId = newDraftId(user.uid);
+        draftIdRef.current = draftId;
+        // A reload resumes the same draft instead of starting a second one
+        setSearchParams({ draft: draftId }, { replace: true });
+      }
+      setDraftStatus("saving");
+      saveDraft(user.uid, draftId, { ...formData, tags, coverImage: cover.image, coverPreset: cover.preset, inviteeIds })
+        .then(() => setDraftStatus("saved"))
+        .catch(() => setDraftStatus("error"));
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formData, tags, cover.image, cover.preset, inviteeIds, draftReady]);
+
+  const handleTemplateSelect = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    setTemplateId(id);
+    applyTemplate(template);
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!templateId) return;
+    try {
+      await deleteTemplate(user.uid, templateId);
+      setTemplateId("");
+      toast.success("Template deleted");
+    } catch (error) {
+      toast.error("Failed to delete template");
+    }
+  };
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
@@ -73,6 +206,9 @@ export default function Create() {
     setFormData((prev) => ({ ...prev, [name]: val }));
   };
 
+  const setPollOption = (index: number, value: string) =>
+    setFormData((prev) => ({ ...prev, pollOptions: prev.pollOptions.map((o, i) => (i === index ? value : o)) }));
+
   const handleSelectChange = (name: string, value: string | boolean) => {
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
@@ -91,7 +227,7 @@ export default function Create() {
       category,
     } = formData;
     if (
-      !title || !description || !location || latitude == null || longitude == null || !dateTime || !category
+      !title || !description || !location || latitude == null || longitude == null || (!formData.scheduling && !dateTime) || !category
     ) {
       toast.error(
         latitude == null || longitude == null
@@ -101,12 +237,29 @@ export default function Create() {
       return;
     }
 
+    let dateOptions: DateOption[] | undefined;
+    if (formData.scheduling) {
+      const picked = Array.from(new Set(formData.pollOptions.filter(Boolean)));
+      if (picked.length < MIN_DATE_OPTIONS) {
+        toast.error(`Add at least ${MIN_DATE_OPTIONS} different dates to vote on`);
+        return;
+      }
+      if (picked.some((value) => new Date(value).getTime() < Date.now())) {
+        toast.error("Poll dates must be in the future");
+        return;
+      }
+      dateOptions = picked
+        .sort()
+        .map((value, index) => ({ id: `option${index + 1}`, dateTime: Timestamp.fromDate(new Date(value)) }));
+    }
+
     try {
       setIsSubmitting(true);
 
       // --- FIX IS HERE ---
       // 2. Convert the dateTime string to a Firestore Timestamp object
-      const firestoreTimestamp = Timestamp.fromDate(new Date(dateTime));
+      // (polls are re-dated by createActivity, see DateOption)
+      const firestoreTimestamp = dateOptions ? dateOptions[0].dateTime : Timestamp.fromDate(new Date(dateTime));
 
       const newActivity: NewActivity = {
         title: title.trim(),
@@ -122,14 +275,47 @@ export default function Create() {
         },
         maxParticipants: formData.maxParticipants ? Number(formData.maxParticipants) : undefined,
         isPublic: formData.isPublic,
+        unlisted: formData.unlisted,
         requiresApproval: formData.requiresApproval,
+        coverImage: cover.image,
+        coverPreset: cover.preset,
+        tags,
+        ...(dateOptions && { dateOptions }),
       };
 
-      await createActivity(newActivity);
+      if (formData.scheduling || formData.repeat === "none") {
+        publishingRef.current = true;
+        const activityId = await createActivity(newActivity, cover.file);
+        toast.success("Activity created successfully!");
+        if (inviteeIds.length > 0) {
+          try {
+            const invited = await inviteFriends(activityId, inviteeIds);
+            toast.success(`Invited ${invited} friend${invited === 1 ? "" : "s"}`);
+          } catch (inviteError) {
+            toast.error("Activity created, but the invitations could not be sent");
+          }
+        }
+      } else {
+        if (formData.repeatEnd === "until" && !formData.repeatUntil) {
+          toast.error("Please choose when the series ends");
+          return;
+        }
+        publishingRef.current = true;
+        await createActivitySeries(newActivity, {
+          frequency: formData.repeat,
+          ...(formData.repeatEnd === "count"
+            ? { count: Number(formData.repeatCount) }
+            : { until: new Date(`${formData.repeatUntil}T23:59:59`) }),
+        }, cover.file);
+        toast.success("Recurring activity created! Upcoming dates will appear shortly.");
+      }
 
-      toast.success("Activity created successfully!");
+      if (draftIdRef.current) {
+        deleteDraft(user.uid, draftIdRef.current).catch((error) => console.error("Error deleting published draft:", error));
+      }
       navigate("/feed");
     } catch (error) {
+      publishingRef.current = false;
       console.error("Error creating activity:", error);
       toast.error(error instanceof Error ? error.message : "Failed to create activity");
     } finally {
@@ -146,10 +332,28 @@ export default function Create() {
             <CardDescription>
               Fill in the details to create a new activity for others to join
             </CardDescription>
+            {draftStatus !== "idle" && (
+              <p className="text-xs text-muted-foreground">
+                {draftStatus === "saving" ? "Saving draft..." : draftStatus === "saved" ? "Draft saved. You can finish it later from My Activities." : "Couldn't save the draft"}
+              </p>
+            )}
           </CardHeader>
 
           <form onSubmit={handleSubmit}>
             <CardContent className="space-y-6">
+              {templates.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="template">Start from a template</Label>
+                  <div className="flex gap-2">
+                    <Select value={templateId} onValueChange={handleTemplateSelect}>
+                      <SelectTrigger id="template"><SelectValue placeholder="Choose a saved template" /></SelectTrigger>
+                      <SelectContent>{templates.map((t) => (<SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>))}</SelectContent>
+                    </Select>
+                    {templateId && (<Button type="button" variant="outline" size="icon" onClick={handleDeleteTemplate} aria-label="Delete template"><Trash2 className="h-4 w-4" /></Button>)}
+                  </div>
+                </div>
+              )}
+
               {/* Title, Description, Category, Location... */}
               <div className="space-y-2">
                 <Label htmlFor="title">Activity Title *</Label>
@@ -165,19 +369,88 @@ export default function Create() {
                 <Label htmlFor="category">Category *</Label>
                 <Select value={formData.category} onValueChange={(val) => handleSelectChange("category", val)} required>
                   <SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger>
-                  <SelectContent>{activityCategories.map((cat) => (<SelectItem key={cat} value={cat}>{cat}</SelectItem>))}</SelectContent>
+                  <SelectContent>{categories.filter((cat) => cat.active !== false).map((cat) => (<SelectItem key={cat.id} value={cat.id}><span className="flex items-center gap-2"><CategoryIcon name={cat.icon} className="h-4 w-4" style={{ color: cat.color }} />{cat.label}</span></SelectItem>))}</SelectContent>
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="tags">Tags</Label>
+                <TagInput id="tags" value={tags} onChange={setTags} />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Cover Image</Label>
+                <CoverImagePicker category={formData.category} value={cover} onChange={setCover} />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="location">Location *</Label>
                 <LocationAutocomplete value={formData.location} onChange={(loc) => setFormData((prev) => ({ ...prev, location: loc }))} onSelect={({ formatted, lat, lng }) => setFormData((prev) => ({ ...prev, location: formatted, latitude: lat, longitude: lng }))} />
               </div>
 
+              <div className="flex items-center space-x-2">
+                <Input type="checkbox" id="scheduling" name="scheduling" checked={formData.scheduling} onChange={handleChange} className="h-4 w-4" />
+                <Label htmlFor="scheduling" className="font-normal">Let people vote on the date</Label>
+              </div>
+
+              {formData.scheduling ? (
+                <div className="space-y-2">
+                  <Label>Date options *</Label>
+                  <p className="text-xs text-muted-foreground">Participants mark which ones work for them; you pick the final date from the tally.</p>
+                  {formData.pollOptions.map((option, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Input type="datetime-local" aria-label={`Date option ${index + 1}`} min={new Date().toISOString().slice(0, 16)} value={option} onChange={(e) => setPollOption(index, e.target.value)} />
+                      {formData.pollOptions.length > MIN_DATE_OPTIONS && (<Button type="button" variant="ghost" size="icon" onClick={() => setFormData((prev) => ({ ...prev, pollOptions: prev.pollOptions.filter((_, i) => i !== index) }))} aria-label="Remove date option"><X className="h-4 w-4" /></Button>)}
+                    </div>
+                  ))}
+                  {formData.pollOptions.length < MAX_DATE_OPTIONS && (<Button type="button" variant="outline" size="sm" onClick={() => setFormData((prev) => ({ ...prev, pollOptions: [...prev.pollOptions, ""] }))}><Plus className="mr-2 h-4 w-4" />Add Date</Button>)}
+                </div>
+              ) : (
               <div className="space-y-2">
                 <Label htmlFor="dateTime">Date and Time *</Label>
                 <Input id="dateTime" name="dateTime" type="datetime-local" min={new Date().toISOString().slice(0, 16)} value={formData.dateTime} onChange={handleChange} required />
               </div>
+              )}
+
+              {!formData.scheduling && (
+              <div className="space-y-2">
+                <Label htmlFor="repeat">Repeat</Label>
+                <Select value={formData.repeat} onValueChange={(val) => handleSelectChange("repeat", val)}>
+                  <SelectTrigger><SelectValue placeholder="Does not repeat" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Does not repeat</SelectItem>
+                    <SelectItem value="weekly">Every week</SelectItem>
+                    <SelectItem value="monthly">Every month</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              )}
+
+              {!formData.scheduling && formData.repeat !== "none" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="repeatEnd">Ends</Label>
+                    <Select value={formData.repeatEnd} onValueChange={(val) => handleSelectChange("repeatEnd", val)}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">After a number of times</SelectItem>
+                        <SelectItem value="until">On a date</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {formData.repeatEnd === "count" ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="repeatCount">Occurrences</Label>
+                      <Input id="repeatCount" name="repeatCount" type="number" min={2} max={MAX_SERIES_OCCURRENCES} value={formData.repeatCount} onChange={handleChange} />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="repeatUntil">End date</Label>
+                      <Input id="repeatUntil" name="repeatUntil" type="date" min={formData.dateTime.slice(0, 10) || undefined} value={formData.repeatUntil} onChange={handleChange} />
+                    </div>
+                  )}
+                </div>
+              )}
 
               <div className="space-y-2">
                 <Label htmlFor="maxParticipants">Maximum Participants (Optional)</Label>
@@ -186,11 +459,12 @@ export default function Create() {
 
               <div className="space-y-2">
                 <Label htmlFor="privacy">Privacy Setting</Label>
-                <Select value={formData.isPublic ? "public" : "private"} onValueChange={(val) => handleSelectChange("isPublic", val === "public")}>
+                <Select value={formData.unlisted ? "unlisted" : formData.isPublic ? "public" : "private"} onValueChange={(val) => setFormData((prev) => ({ ...prev, isPublic: val === "public", unlisted: val === "unlisted" }))}>
                   <SelectTrigger><SelectValue placeholder="Select privacy setting" /></SelectTrigger>
                   <SelectContent>
                     <SelectItem value="public">Public (Everyone can see)</SelectItem>
                     <SelectItem value="private">Private (Only friends can see)</SelectItem>
+                    <SelectItem value="unlisted">Unlisted (Only people with an invite link)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -209,6 +483,18 @@ export default function Create() {
                   Require approval for users to join
                 </Label>
               </div>
+
+              {/* Direct invitations (one-off activities; series occurrences are created later) */}
+              {(formData.scheduling || formData.repeat === "none") && (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {inviteeIds.length > 0 ? `${inviteeIds.length} friend${inviteeIds.length === 1 ? "" : "s"} will be invited` : "Invited friends can join even if the activity is private or needs approval"}
+                  </span>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setInviteDialogOpen(true)}>
+                    <UserPlus className="mr-2 h-4 w-4" />Invite Friends
+                  </Button>
+                </div>
+              )}
             </CardContent>
 
             <CardFooter className="flex justify-between">
@@ -217,6 +503,13 @@ export default function Create() {
             </CardFooter>
           </form>
         </Card>
+        <InviteFriendsDialog
+          open={inviteDialogOpen}
+          onOpenChange={setInviteDialogOpen}
+          initialSelection={inviteeIds}
+          confirmLabel="Select"
+          onConfirm={setInviteeIds}
+        />
       </div>
     </Layout>
   );
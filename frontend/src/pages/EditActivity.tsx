@@ -3,20 +3,19 @@ import React, { useEffect, useState } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { Layout } from "components/Layout";
 import { useUserGuardContext } from "app";
-import { useActivityStore, Activity } from "../utils/activityStore";
+import { useActivityStore, Activity, isActivityHost, cleanTags } from "../utils/activityStore";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Timestamp, doc, getDoc, getFirestore } from "firebase/firestore";
+import { doc, getDoc, getFirestore } from "firebase/firestore";
 import { toast, Toaster } from "sonner";
 import { firestore } from "../utils/firebase";
-
-const CATEGORIES = [
-  "Sports", "Dining", "Hiking", "Gaming",
-  "Movies", "Travel", "Music", "Cooking", "Hangout"
-] as const;
+import { toDateTimeLocalValue, toTimestamp } from "../utils/dateTime";
+import CoverImagePicker, { CoverSelection } from "components/CoverImagePicker";
+import TagInput from "components/TagInput";
+import { useCategoryStore } from "../utils/categoryStore";
 
 export default function EditActivity() {
   const { user } = useUserGuardContext();
@@ -24,11 +23,19 @@ export default function EditActivity() {
   const [searchParams] = useSearchParams();
   const activityId = searchParams.get("id");
 
-  const { updateActivity } = useActivityStore();
+  const { updateActivity, updateActivitySeries, uploadCover } = useActivityStore();
 
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [form, setForm] = useState<Partial<Activity>>({});
+  // datetime-local needs a local "yyyy-MM-ddTHH:mm" string, not a Timestamp
+  const [dateTimeInput, setDateTimeInput] = useState("");
+  // For series occurrences: apply the edit to this one or to all future ones
+  const [editScope, setEditScope] = useState<"this" | "future">("this");
+  const [cover, setCover] = useState<CoverSelection>({ file: null, image: null, preset: null });
+  const categories = useCategoryStore((s) => s.categories);
+  // Retired categories stay selectable for activities that already use them
+  const categoryOptions = categories.filter((cat) => cat.active !== false || cat.id === form.category);
 
   // load activity on mount
   useEffect(() => {
@@ -48,18 +55,14 @@ export default function EditActivity() {
           return;
         }
         const data = snap.data() as Activity;
-        if (data.createdBy.userId !== user.uid) {
-          toast.error("You can only edit your own activities");
+        if (!isActivityHost(data, user.uid)) {
+          toast.error("Only the organizer and co-hosts can edit this activity");
           navigate(-1);
           return;
         }
-        // convert Timestamp to ISO for datetime-local
-        const dt =
-          data.dateTime instanceof Timestamp
-            ? data.dateTime.toDate().toISOString().slice(0, 16)
-            : new Date(data.dateTime).toISOString().slice(0, 16);
-
-        setForm({ ...data, dateTime: typeof dt === 'string' ? Timestamp.fromDate(new Date(dt)) : dt });
+        setForm(data);
+        setCover({ file: null, image: data.coverImage ?? null, preset: data.coverPreset ?? null });
+        setDateTimeInput(toDateTimeLocalValue(data.dateTime));
       } catch (err) {
         console.error(err);
         toast.error("Failed to load activity");
@@ -91,22 +94,34 @@ export default function EditActivity() {
     if (!activityId) return;
     setSaving(true);
     try {
-      // convert ISO back to Firestore Timestamp
-      const dt =
-        typeof form.dateTime === "string"
-          ? Timestamp.fromDate(new Date(form.dateTime))
-          : form.dateTime;
+      const dt = toTimestamp(dateTimeInput);
+      if (!dt) {
+        toast.error("Please choose a valid date and time");
+        return;
+      }
 
-      await updateActivity(activityId, {
+      const coverImage = cover.file ? await uploadCover(activityId, cover.file) : cover.image;
+      const changes = {
         title: form.title!,
         description: form.description!,
         location: form.location!,
         category: form.category!,
         dateTime: dt,
-        isPublic: form.isPublic ?? true,
+        isPublic: form.unlisted ? false : form.isPublic ?? true,
+        unlisted: form.unlisted ?? false,
+        requiresApproval: form.requiresApproval ?? false,
         maxParticipants: form.maxParticipants ?? null,
-      });
-      toast.success("Activity updated!");
+        coverImage,
+        coverPreset: cover.preset,
+        tags: cleanTags(form.tags),
+      };
+      if (form.seriesId && editScope === "future") {
+        await updateActivitySeries(activityId, changes);
+        toast.success("All future occurrences updated!");
+      } else {
+        await updateActivity(activityId, changes);
+        toast.success("Activity updated!");
+      }
       navigate(-1);
     } catch (err) {
       console.error(err);
@@ -132,6 +147,32 @@ export default function EditActivity() {
       <h1 className="text-2xl font-bold mb-4">Edit Activity</h1>
 
       <div className="space-y-4">
+        {form.seriesId && (
+          <div className="rounded border p-3 space-y-2">
+            <p className="text-sm font-medium">This activity is part of a recurring series</p>
+            <div className="flex gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="editScope"
+                  checked={editScope === "this"}
+                  onChange={() => setEditScope("this")}
+                />
+                This occurrence
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="editScope"
+                  checked={editScope === "future"}
+                  onChange={() => setEditScope("future")}
+                />
+                All future occurrences
+              </label>
+            </div>
+          </div>
+        )}
+
         <div>
           <Label htmlFor="title">Title</Label>
           <Input
@@ -169,9 +210,16 @@ export default function EditActivity() {
             id="dateTime"
             name="dateTime"
             type="datetime-local"
-            value={(form.dateTime as unknown) as string}
-            onChange={handleChange}
+            value={dateTimeInput}
+            onChange={(e) => setDateTimeInput(e.target.value)}
+            disabled={form.status === "scheduling"}
           />
+          {form.status === "scheduling" && (<p className="text-xs text-muted-foreground mt-1">The date is being voted on. Pick the winner from the poll on the activity page.</p>)}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Cover Image</Label>
+          <CoverImagePicker category={form.category || categoryOptions[0]?.id || ""} value={cover} onChange={setCover} />
         </div>
 
         <div>
@@ -180,29 +228,58 @@ export default function EditActivity() {
             id="category"
             name="category"
             className="block w-full border rounded px-2 py-1"
-            value={form.category || CATEGORIES[0]}
+            value={form.category || categoryOptions[0]?.id}
             onChange={handleChange}
           >
-            {CATEGORIES.map((cat) => (
-              <option key={cat} value={cat}>
-                {cat}
+            {categoryOptions.map((cat) => (
+              <option key={cat.id} value={cat.id}>
+                {cat.label}
               </option>
             ))}
           </select>
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="tags">Tags</Label>
+          <TagInput id="tags" value={form.tags ?? []} onChange={(tags) => setForm((f) => ({ ...f, tags }))} />
+        </div>
+
         <div className="flex items-center gap-4">
           <Switch
             id="isPublic"
             name="isPublic"
-            checked={form.isPublic ?? true}
+            checked={(form.isPublic ?? true) && !form.unlisted}
             onCheckedChange={(val) =>
-              setForm((f) => ({ ...f, isPublic: val }))
+              setForm((f) => ({ ...f, isPublic: val, unlisted: val ? false : f.unlisted }))
             }
           />
           <Label htmlFor="isPublic">Public</Label>
         </div>
 
+        <div className="flex items-center gap-4">
+          <Switch
+            id="unlisted"
+            name="unlisted"
+            checked={form.unlisted ?? false}
+            onCheckedChange={(val) =>
+              setForm((f) => ({ ...f, unlisted: val, isPublic: val ? false : f.isPublic }))
+            }
+          />
+          <Label htmlFor="unlisted">Unlisted (hidden from the Feed, join by invite link)</Label>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <Switch
+            id="requiresApproval"
+            name="requiresApproval"
+            checked={form.requiresApproval ?? false}
+            onCheckedChange={(val) =>
+              setForm((f) => ({ ...f, requiresApproval: val }))
+            }
+          />
+          <Label htmlFor="requiresApproval">Require approval to join</Label>
+        </div>
+
         <div>
           <Label htmlFor="maxParticipants">Max Participants</Label>
           <Input
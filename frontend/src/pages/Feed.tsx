@@ -1,47 +1,30 @@
 
 
 import React, { useState, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from "@/components/ui/accordion";
 import { ActivityCard } from "components/ActivityCard";
 import { Layout } from "components/Layout";
-import { useActivityStore } from "../utils/activityStore";
+import { useActivityStore, Activity } from "../utils/activityStore";
+import { searchTokens } from "../utils/search";
 import { useUserGuardContext } from "app";
 import { useFriendsStore } from "../utils/friendsStore";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import LocationAutocomplete from "components/LocationAutocomplete";
+import ActivityMap from "components/ActivityMap";
+import LoadMoreSentinel from "components/LoadMoreSentinel";
+import InvitationsList from "components/InvitationsList";
+import CategoryIcon from "components/CategoryIcon";
+import TagInput from "components/TagInput";
+import { Badge } from "@/components/ui/badge";
+import { LayoutGrid, Map as MapIcon, X } from "lucide-react";
 import { Timestamp } from "firebase/firestore";
-
-
-
-
-// Haversine formula to compute distance between two lat/lng points in km
-function getDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-  const R = 6371;
-  const dLat = toRad(lat2 - lat1);
-  const dLng = toRad(lng2 - lng1);
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-export type ActivityCategory =
-  | "All"
-  | "Sports"
-  | "Dining"
-  | "Hiking"
-  | "Gaming"
-  | "Movies"
-  | "Travel"
-  | "Music"
-  | "Hangout"
-  | "Cooking";
+import { getDistance } from "../utils/geo";
+import { ActivityCategory, ALL_CATEGORIES, useCategoryStore } from "../utils/categoryStore";
 
 
 export default function Feed() {
@@ -64,23 +47,57 @@ export default function Feed() {
   const [radiusKm, setRadiusKm] = useState<number>(10);
 
   const [timeFilter, setTimeFilter] = useState<"upcoming" | "archive">("upcoming");
-  const [activeCategory, setActiveCategory] = useState<ActivityCategory>("All");
+  const [activeCategory, setActiveCategory] = useState<ActivityCategory>(ALL_CATEGORIES);
+  const categories = useCategoryStore((s) => s.categories);
+  const activeCategories = useMemo(() => categories.filter((c) => c.active !== false), [categories]);
+  // ?tag= so tag badges on cards can link straight to a filtered Feed
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTag = searchParams.get("tag");
+  const setActiveTag = (tag: string | null) => setSearchParams(tag ? { tag } : {}, { replace: true });
+  const [viewMode, setViewMode] = useState<"list" | "map">("list");
 
-  const { activities, isLoading, initializeListener } = useActivityStore();
+  const { activities, isLoading, isLoadingMore, hasMore, initializeListener, loadMoreActivities, searchActivities } = useActivityStore();
+  // Indexed keyword results for upcoming activities; null when not searching
+  const [searchResults, setSearchResults] = useState<Activity[] | null>(null);
   const { isFriend } = useFriendsStore();
   console.log('DEBUG Feed — friends from hook →', friends);
 
   // in Feed.tsx
   useEffect(() => {
     // Pass friends (which should be string[]) directly in:
+    // With a city center only nearby public activities are downloaded;
+    // the exact radius check below removes geohash false positives.
     const unsub = initializeListener(
       user.uid,
       friends,
       showFriendsOnly,
+      {
+        area: center ? { lat: center.lat, lng: center.lng, radiusKm } : undefined,
+        category: activeCategory,
+        tag: activeTag ?? undefined,
+        archived: timeFilter === "archive",
+      },
     );
     return () => unsub();
-  }, [user.uid, friends, showFriendsOnly]); 
+  }, [user.uid, friends, showFriendsOnly, center, radiusKm, activeCategory, activeTag, timeFilter]); 
   
+  useEffect(() => {
+    if (timeFilter !== "upcoming" || searchTokens(searchQuery).length === 0) {
+      setSearchResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchActivities(searchQuery)
+        .then((results) => { if (!cancelled) setSearchResults(results); })
+        .catch((err) => console.error("Activity search failed:", err));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, timeFilter, searchActivities]);
+
   const timeFiltered = useMemo(() => {
     return activities.filter(act => {
       // Check the archived field directly
@@ -90,9 +107,11 @@ export default function Feed() {
     });
   }, [activities, timeFilter]);
 
-  const filteredActivities = timeFiltered.filter(activity => {
+  // The archive isn't indexed for search, so it keeps matching loaded activities
+  const filteredActivities = (searchResults ?? timeFiltered).filter(activity => {
     const q = searchQuery.toLowerCase();
     if (
+      !searchResults &&
       q &&
       !activity.title.toLowerCase().includes(q) &&
       !activity.description.toLowerCase().includes(q) &&
@@ -101,6 +120,7 @@ export default function Feed() {
 
     const isOwn = activity.createdBy.userId === user.uid;
     if (isOwn) return false; // Always hide your own activities in this feed
+    if (activity.unlisted) return false; // Only reachable through invite links
 
     const creatorIsFriend = isFriend(activity.createdBy.userId);
 
@@ -117,7 +137,9 @@ export default function Feed() {
       if (dist > radiusKm) return false;
     }
 
-    if (activeCategory !== "All" && activity.category !== activeCategory) return false;
+    // The listener already filters in the query; search results don't
+    if (activeCategory !== ALL_CATEGORIES && activity.category !== activeCategory) return false;
+    if (activeTag && !(activity.tags ?? []).includes(activeTag)) return false;
 
     return true;
   });
@@ -125,6 +147,9 @@ export default function Feed() {
   return (
     <Layout>
       <div className="container mx-auto max-w-7xl px-6 pt-4 space-y-6">
+        {/* Pending invitations (hidden when there are none) */}
+        <InvitationsList />
+
         {/* Near‑Me Filter (always visible) */}
         <div className="flex flex-col sm:flex-row gap-4">
           <LocationAutocomplete
@@ -153,6 +178,12 @@ export default function Feed() {
           >
             Clear location
           </Button>
+          <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as "list" | "map")}>
+            <TabsList className="grid grid-cols-2">
+              <TabsTrigger value="list"><LayoutGrid className="mr-1 h-4 w-4" />List</TabsTrigger>
+              <TabsTrigger value="map"><MapIcon className="mr-1 h-4 w-4" />Map</TabsTrigger>
+            </TabsList>
+          </Tabs>
         </div>
 
         {/* More Filters Accordion */}
@@ -198,36 +229,65 @@ export default function Feed() {
                 onValueChange={(v) => setActiveCategory(v as ActivityCategory)}
                 className="w-full"
               >
-                <TabsList className="grid grid-cols-3 md:grid-cols-9 bg-muted/20 rounded-md p-1">
-                  {["All", "Sports", "Dining", "Hiking", "Gaming", "Movies", "Travel", "Music", "Cooking","Hangout"].map(cat => (
-                    <TabsTrigger key={cat} value={cat} className="m-1 rounded-full">
-                      {cat}
+                <TabsList className="h-auto flex flex-wrap justify-start bg-muted/20 rounded-md p-1">
+                  <TabsTrigger value={ALL_CATEGORIES} className="m-1 rounded-full">All</TabsTrigger>
+                  {activeCategories.map(cat => (
+                    <TabsTrigger key={cat.id} value={cat.id} className="m-1 rounded-full gap-1">
+                      <CategoryIcon name={cat.icon} className="h-3.5 w-3.5" style={{ color: cat.color }} />
+                      {cat.label}
                     </TabsTrigger>
                   ))}
                 </TabsList>
               </Tabs>
 
+              {/* Tag filter */}
+              <div className="space-y-2 max-w-sm">
+                <Label htmlFor="tag-filter">Tag</Label>
+                <TagInput id="tag-filter" value={activeTag ? [activeTag] : []} onChange={(tags) => setActiveTag(tags[0] ?? null)} maxTags={1} placeholder="Filter by tag, e.g. beginners" />
+              </div>
+
             </AccordionContent>
           </AccordionItem>
         </Accordion>
 
+        {activeTag && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Tagged</span>
+            <Badge variant="secondary" className="gap-1">#{activeTag}<button type="button" aria-label="Clear tag filter" onClick={() => setActiveTag(null)}><X className="h-3 w-3" /></button></Badge>
+          </div>
+        )}
+
         {/* Activity Grid */}
         {isLoading ? (
           <div className="text-center py-12">
             <p className="text-muted-foreground">Loading activities...</p>
           </div>
+        ) : viewMode === "map" ? (
+          <ActivityMap
+            activities={filteredActivities}
+            center={center}
+            radiusKm={radiusKm}
+            onSearchArea={({ lat, lng, radiusKm }) => {
+              setCityQuery("Map area");
+              setCenter({ name: "Map area", lat, lng });
+              setRadiusKm(radiusKm);
+            }}
+          />
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
             {filteredActivities.map(act => (
               <ActivityCard key={act.id} activity={act} />
             ))}
-            {filteredActivities.length === 0 && (
+            {filteredActivities.length === 0 && (searchResults !== null || !hasMore) && (
               <div className="text-center py-12 col-span-full">
                 <p className="text-muted-foreground">
                   No activities found. Try adjusting your filters.
                 </p>
               </div>
             )}
+            <div className="col-span-full">
+              <LoadMoreSentinel hasMore={hasMore && searchResults === null} isLoading={isLoadingMore} onLoadMore={loadMoreActivities} />
+            </div>
           </div>
         )}
       </div>
@@ -39,6 +39,7 @@ export default function Friends() {
     sentRequests,
     receivedRequests,
     initializeListeners,
+    searchUsers,
     sendFriendRequest,
     acceptFriendRequest,
     rejectFriendRequest,
@@ -79,13 +80,6 @@ export default function Friends() {
     loadFriends();
   }, [friends]);
 
-  // Fetch profiles for search
-  const fetchAllProfiles = async () => {
-    const profilesRef = collection(db, 'userProfiles');
-    const snapshot = await getDocs(profilesRef);
-    return snapshot.docs.map(doc => doc.data() as UserProfile);
-  };
-
   // Handle search
   const handleSearch = async () => {
     if (!searchQuery.trim()) {
@@ -94,14 +88,9 @@ export default function Friends() {
     }
     setIsSearching(true);
     try {
-      const profiles = await fetchAllProfiles();
-      const lower = searchQuery.toLowerCase();
+      const profiles = await searchUsers(searchQuery);
       const results = profiles
         .filter(u => u.userId !== user?.uid)
-        .filter(u =>
-          u.displayName?.toLowerCase().includes(lower) ||
-          u.email?.toLowerCase().includes(lower)
-        )
         .map(u => ({
           ...u,
           isFriend: friends.includes(u.userId),
@@ -2,39 +2,34 @@ import React, { useEffect, useMemo, useState } from "react";
 import { Layout } from "components/Layout";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ActivityCard } from "components/ActivityCard";
+import LoadMoreSentinel from "components/LoadMoreSentinel";
+import InvitationsList from "components/InvitationsList";
+import DraftsList from "components/DraftsList";
 import { useActivityStore } from "../utils/activityStore";
 import { useUserGuardContext } from "app";
-import { Timestamp } from "firebase/firestore";
 
 export default function MyActivities() {
   const { user } = useUserGuardContext();
-  const { activities, isLoading, initializeListener } = useActivityStore();
+  const { activities, isLoading, isLoadingMore, hasMore, initializeListener, loadMoreActivities } = useActivityStore();
 
   // Time‑filter state (just like Feed)
-  const [timeFilter, setTimeFilter] = useState<"upcoming" | "archive">("upcoming");
+  const [timeFilter, setTimeFilter] = useState<"upcoming" | "archive" | "drafts">("upcoming");
 
-  // Subscribe once on mount
+  // Only my own activities (creator query), paginated and filtered server-side
   useEffect(() => {
-    if (!user.uid) return;
-    const unsub = initializeListener(user.uid, /* friends: */ [], /* friendsOnly: */ false);
-    return () => unsub();
-  }, [user.uid, initializeListener]);
-
-  // First: split upcoming vs archive
-  const timeFiltered = useMemo(() => {
-    const now = new Date();
-    return activities.filter(act => {
-      const when = act.dateTime instanceof Timestamp
-        ? act.dateTime.toDate()
-        : new Date(act.dateTime);
-      return timeFilter === "upcoming" ? when >= now : when < now;
+    // Drafts come from their own collection (see DraftsList)
+    if (!user.uid || timeFilter === "drafts") return;
+    const unsub = initializeListener(user.uid, /* friends: */ [], /* friendsOnly: */ true, {
+      archived: timeFilter === "archive",
     });
-  }, [activities, timeFilter]);
+    return () => unsub();
+  }, [user.uid, initializeListener, timeFilter]);
 
-  // Then: only keep the ones **I** created
+  // Upcoming vs archive is the server's `archived` flag, already in the query.
+  // Only keep the ones **I** created
   const myActivities = useMemo(
-    () => timeFiltered.filter(act => act.createdBy.userId === user.uid),
-    [timeFiltered, user.uid]
+    () => activities.filter(act => act.createdBy.userId === user.uid),
+    [activities, user.uid]
   );
 
   return (
@@ -42,20 +37,25 @@ export default function MyActivities() {
       <div className="container mx-auto max-w-7xl px-6 pt-4 space-y-6">
         <h1 className="text-2xl font-bold">My Activities</h1>
 
+        <InvitationsList />
+
         {/* Time Tabs */}
         <Tabs
           value={timeFilter}
-          onValueChange={(v) => setTimeFilter(v as "upcoming" | "archive")}
+          onValueChange={(v) => setTimeFilter(v as "upcoming" | "archive" | "drafts")}
           className="w-full"
         >
-          <TabsList className="w-[360px] grid grid-cols-2 mb-4">
+          <TabsList className="w-[360px] grid grid-cols-3 mb-4">
             <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
             <TabsTrigger value="archive">Archive</TabsTrigger>
+            <TabsTrigger value="drafts">Drafts</TabsTrigger>
           </TabsList>
         </Tabs>
 
         {/* Activity Grid */}
-        {isLoading ? (
+        {timeFilter === "drafts" ? (
+          <DraftsList />
+        ) : isLoading ? (
           <div className="text-center py-12">
             <p className="text-muted-foreground">Loading your activities…</p>
           </div>
@@ -70,6 +70,9 @@ export default function MyActivities() {
             {myActivities.map((act) => (
               <ActivityCard key={act.id} activity={act} />
             ))}
+            <div className="col-span-full">
+              <LoadMoreSentinel hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMoreActivities} />
+            </div>
           </div>
         )}
       </div>
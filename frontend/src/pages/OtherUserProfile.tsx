@@ -10,6 +10,8 @@ import { toast } from "sonner";
 import { useUserGuardContext } from "app";
 import { useFriendsStore, FriendRequestStatus } from "../utils/friendsStore";
 import { UserProfile } from "../utils/userProfileStore";
+import { averageRating } from "../utils/activityStore";
+import StarRating from "components/StarRating";
 
 const db = getFirestore(firebaseApp);
 
@@ -145,6 +147,8 @@ export default function UserProfilePage() {
     }
   };
 
+  const hostRating = averageRating(profile?.hostRatingSum, profile?.hostRatingCount);
+
   if (loading || status === null || !statusReadyRef.current) {
     return (
       <Layout title="Profile">
@@ -179,6 +183,14 @@ export default function UserProfilePage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
+            {hostRating !== null && (
+              <div className="flex items-center justify-center gap-2 mb-4 text-sm">
+                <StarRating value={hostRating} size="sm" />
+                <span className="text-muted-foreground">
+                  {hostRating.toFixed(1)} as host · {profile.hostRatingCount} rating{profile.hostRatingCount === 1 ? "" : "s"}
+                </span>
+              </div>
+            )}
             {profile.bio && <p className="mb-4 whitespace-pre-wrap">{profile.bio}</p>}
           </CardContent>
           <CardFooter className="flex flex-col gap-2">
@@ -1,38 +1,40 @@
 import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useUserGuardContext } from "app";
-import { useUserProfileStore, UserProfile } from "../utils/userProfileStore";
+import { useUserProfileStore, UserProfile, ReminderSettings } from "../utils/userProfileStore";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Edit, Save, X, Camera, Users } from "lucide-react";
+import { Edit, Save, X, Camera, Users, CalendarDays, BellRing } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast, Toaster } from "sonner";
 import { uploadProfilePicture } from "../utils/fileStorage";
 import { Layout } from "components/Layout";
 import { resizeImage } from "../utils/imageUtils";
-
-const ACTIVITY_INTERESTS = [
-  "Hiking", "Running", "Walking", "Cycling", "Swimming", 
-  "Yoga", "Gym", "Dancing", "Movies", "Music", 
-  "Food", "Drinks", "Coffee", "Travel", "Sightseeing",
-  "Museums", "Art", "Theater", "Concerts", "Sports", 
-  "Games", "Books", "Coding", "Photography", "Cooking"
-];
+import { useCategoryStore } from "../utils/categoryStore";
 
 export default function Profile() {
   const navigate = useNavigate();
   const { user } = useUserGuardContext();
 
   // pull in initializeListener along with profile, isLoading, update
-  const { profile, isLoading, updateProfile, initializeListener } = useUserProfileStore();
+  const { profile, isLoading, updateProfile, initializeListener, getCalendarFeedUrl } = useUserProfileStore();
+  const [loadingCalendarFeed, setLoadingCalendarFeed] = useState(false);
 
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState<Partial<UserProfile>>();
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
 
+  // Interests are the registry's categories; ones picked before a category was
+  // retired stay listed so they can still be deselected
+  const categories = useCategoryStore((s) => s.categories);
+  const categoryLabels = categories.filter((c) => c.active !== false).map((c) => c.label);
+  const interestOptions = [...categoryLabels, ...selectedInterests.filter((i) => !categoryLabels.includes(i))];
+
   // subscribe to Firestore on mount (and whenever user changes)
   useEffect(() => {
     if (!user) return;
@@ -97,6 +99,15 @@ export default function Profile() {
     }
   };
 
+  const handleReminderToggle = async (kind: keyof ReminderSettings, enabled: boolean) => {
+    try {
+      await updateProfile({ reminderSettings: { ...profile?.reminderSettings, [kind]: enabled } });
+    } catch (error) {
+      console.error("Error updating reminder settings:", error);
+      toast.error("Failed to update reminder settings");
+    }
+  };
+
   const handleProfilePictureChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -191,6 +202,56 @@ export default function Profile() {
           </CardHeader>
           <CardContent><Button onClick={() => navigate("/myactivities")} variant="outline" className="w-full"><Users className="h-4 w-4 mr-2" />View and Edit Your Activities</Button></CardContent>
         </Card>
+        {/* Reminders Card */}
+        <Card className="shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><BellRing className="h-5 w-5" />Reminders</CardTitle>
+            <CardDescription>Push notifications with the time and place of activities you've joined</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="reminderDayBefore" className="font-normal">A day before</Label>
+              <Switch id="reminderDayBefore" checked={profile.reminderSettings?.dayBefore !== false} onCheckedChange={(checked) => handleReminderToggle("dayBefore", checked)} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="reminderHourBefore" className="font-normal">An hour before</Label>
+              <Switch id="reminderHourBefore" checked={profile.reminderSettings?.hourBefore !== false} onCheckedChange={(checked) => handleReminderToggle("hourBefore", checked)} />
+            </div>
+          </CardContent>
+        </Card>
+        {/* Calendar Subscription Card */}
+        <Card className="shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><CalendarDays className="h-5 w-5" />Calendar Subscription</CardTitle>
+            <CardDescription>Subscribe in your calendar app to see every activity you created or joined. Keep this link private.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" className="flex-1" disabled={loadingCalendarFeed} onClick={async () => {
+              setLoadingCalendarFeed(true);
+              try {
+                const { url } = await getCalendarFeedUrl();
+                await navigator.clipboard.writeText(url);
+                toast.success("Copied calendar link to clipboard!");
+              } catch {
+                toast.error("Failed to get calendar link");
+              } finally {
+                setLoadingCalendarFeed(false);
+              }
+            }}>Copy Calendar Link</Button>
+            <Button variant="ghost" disabled={loadingCalendarFeed} onClick={async () => {
+              setLoadingCalendarFeed(true);
+              try {
+                const { url } = await getCalendarFeedUrl(true);
+                await navigator.clipboard.writeText(url);
+                toast.success("New calendar link copied. Old links no longer work.");
+              } catch {
+                toast.error("Failed to reset calendar link");
+              } finally {
+                setLoadingCalendarFeed(false);
+              }
+            }}>Reset Link</Button>
+          </CardContent>
+        </Card>
         {/* Share Profile Card */}
         <Card className="shadow-sm">
           <CardHeader>
@@ -235,7 +296,7 @@ export default function Profile() {
           <CardContent>
             {isEditing ? (
               <div className="flex flex-wrap gap-2">
-                {ACTIVITY_INTERESTS.map(interest => (
+                {interestOptions.map(interest => (
                   <Badge key={interest} variant={selectedInterests.includes(interest) ? "default" : "outline"} className="cursor-pointer" onClick={() => toggleInterest(interest)}>{interest}</Badge>
                 ))}
               </div>
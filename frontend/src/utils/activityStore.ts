@@ -6,31 +6,144 @@ import {
   doc,
   setDoc,
   getDoc,
+  getDocs,
   updateDoc,
   deleteDoc,
   onSnapshot,
   query,
   where,
   orderBy,
-  arrayUnion,
-  arrayRemove,
+  startAt,
+  startAfter,
+  endAt,
+  limit,
+  Query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
   Timestamp as FirestoreTimestamp, // *** Import Firestore Timestamp ***
   QuerySnapshot,
   DocumentData,
   FirestoreError,
+  writeBatch,
 } from 'firebase/firestore';
-import { ActivityCategory } from '../pages/Feed'; // Ensure this path is correct
+import { ActivityCategory, ALL_CATEGORIES, normalizeTag, MAX_TAGS_PER_ACTIVITY } from './categoryStore';
 import { useChatStore } from './chatStore'; // Ensure this path is correct
-import { ref as rtdbRef, set as rtdbSet } from "firebase/database";
-import { realtimeDb } from "./firebase";    // your RTDB instance
-import { getAuth } from "firebase/auth";
+import { httpsCallable } from "firebase/functions";
+import { functions } from "./firebase";
 import { useFriendsStore } from './friendsStore';
+import { RecurrenceRule, buildOccurrenceDates } from './recurrence';
+import { toTimestamp } from './dateTime';
+import { CoverImage, uploadActivityCover } from './fileStorage';
+import { geohashQueryBounds } from 'geofire-common';
+import { searchTokens, primaryToken, scoreMatch } from './search';
 
 
 
 // Initialize Firestore
 const db = getFirestore(firebaseApp);
 
+// Membership changes go through callables so capacity, visibility and
+// blocklist checks run server-side inside a transaction.
+type JoinStatus = 'joined' | 'pending' | 'waitlisted';
+const joinActivityCallable = httpsCallable<{ activityId: string; waitlist?: boolean }, { status: JoinStatus }>(functions, 'joinActivity');
+const leaveActivityCallable = httpsCallable<{ activityId: string }, { status: 'left' }>(functions, 'leaveActivity');
+const respondToJoinRequestCallable = httpsCallable<{ activityId: string; userId: string; approve: boolean }, { status: 'approved' | 'denied' }>(functions, 'respondToJoinRequest');
+const setActivityHostCallable = httpsCallable<{ activityId: string; userId: string; host: boolean }, { status: 'added' | 'removed' }>(functions, 'setActivityHost');
+const transferOwnershipCallable = httpsCallable<{ activityId: string; newOwnerId: string }, { status: 'transferred' }>(functions, 'transferActivityOwnership');
+const setRsvpCallable = httpsCallable<{ activityId: string; status: RsvpStatus }, { status: RsvpStatus; joinStatus: JoinStatus | null }>(functions, 'setRsvp');
+const getCheckInCodeCallable = httpsCallable<{ activityId: string }, { url: string }>(functions, 'getCheckInCode');
+const checkInCallable = httpsCallable<{ activityId: string; code: string }, { status: 'checked_in' }>(functions, 'checkIn');
+const setAttendanceCallable = httpsCallable<{ activityId: string; userId: string; attended: boolean }, { status: 'attended' | 'absent' }>(functions, 'setAttendance');
+const submitReviewCallable = httpsCallable<{ activityId: string; activityRating: number; hostRating: number; comment: string }, { status: 'created' | 'updated' }>(functions, 'submitReview');
+const createInviteLinkCallable = httpsCallable<{ activityId: string; expiresInHours?: number; maxUses?: number | null }, { linkId: string; token: string; url: string }>(functions, 'createInviteLink');
+const revokeInviteLinkCallable = httpsCallable<{ linkId: string }, { status: 'revoked' }>(functions, 'revokeInviteLink');
+const redeemInviteLinkCallable = httpsCallable<{ token: string; join?: boolean }, { activityId: string; joinStatus: JoinStatus | null }>(functions, 'redeemInviteLink');
+const lockActivityDateCallable = httpsCallable<{ activityId: string; optionId: string; timeZone?: string }, { status: 'locked' }>(functions, 'lockActivityDate');
+const setActivityCancelledCallable = httpsCallable<{ activityId: string; cancelled: boolean; reason?: string }, { status: 'cancelled' | 'restored' }>(functions, 'setActivityCancelled');
+
+// "scheduling" activities are still polling for a date (see DateOption)
+export type ActivityStatus = 'active' | 'cancelled' | 'scheduling';
+
+// Candidate date-time of a scheduling poll
+export interface DateOption {
+  id: string;
+  dateTime: FirestoreTimestamp;
+}
+
+export const MIN_DATE_OPTIONS = 2;
+export const MAX_DATE_OPTIONS = 6;
+
+/** Voter ids per date option, for the live tally */
+export const getDateVoteTally = (activity: Pick<Activity, 'dateOptions' | 'dateVotes'>) => {
+  const tally: Record<string, string[]> = {};
+  (activity.dateOptions ?? []).forEach((option) => { tally[option.id] = []; });
+  Object.entries(activity.dateVotes ?? {}).forEach(([userId, optionIds]) => {
+    optionIds.forEach((optionId) => tally[optionId]?.push(userId));
+  });
+  return tally;
+};
+
+// How long after cancelling the host can still restore an activity (enforced by setActivityCancelled)
+export const UNCANCEL_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+// Mirrors the check-in window enforced by the checkIn / setAttendance functions
+export const CHECK_IN_OPENS_BEFORE_MS = 60 * 60 * 1000;
+export const CHECK_IN_CLOSES_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export const isCheckInOpen = (activity: Pick<Activity, 'dateTime' | 'status'>, now = Date.now()) => {
+  const start = activity.dateTime.toMillis();
+  return activity.status !== 'cancelled' && activity.status !== 'scheduling' && now >= start - CHECK_IN_OPENS_BEFORE_MS && now <= start + CHECK_IN_CLOSES_AFTER_MS;
+};
+
+// "going" is participantIds membership; rsvps only stores the other two answers
+export type RsvpStatus = 'going' | 'maybe' | 'declined';
+
+/** The user's RSVP, or null if they haven't answered */
+export const getRsvpStatus = (activity: Pick<Activity, 'participantIds' | 'rsvps'>, userId: string): RsvpStatus | null =>
+  activity.participantIds.includes(userId) ? 'going' : activity.rsvps?.[userId] ?? null;
+
+/** Going / maybe / can't go head counts; only "going" counts against maxParticipants */
+export const getRsvpCounts = (activity: Pick<Activity, 'participantIds' | 'rsvps'>) => {
+  const answers = Object.values(activity.rsvps ?? {});
+  return {
+    going: activity.participantIds.length,
+    maybe: answers.filter((s) => s === 'maybe').length,
+    declined: answers.filter((s) => s === 'declined').length,
+  };
+};
+
+/** Mirrors submitReview: participants (or checked-in people) of an archived, non-cancelled activity, minus the organizer */
+export const canReviewActivity = (activity: Pick<Activity, 'archived' | 'status' | 'createdBy' | 'participantIds' | 'attendedIds'>, userId: string) =>
+  activity.archived === true &&
+  activity.status !== 'cancelled' &&
+  activity.createdBy.userId !== userId &&
+  (activity.participantIds.includes(userId) || (activity.attendedIds ?? []).includes(userId));
+
+/** Normalized, de-duplicated and capped, as onActivityTagsWritten would store them */
+export const cleanTags = (tags?: string[]) =>
+  Array.from(new Set((tags ?? []).map(normalizeTag).filter(Boolean))).slice(0, MAX_TAGS_PER_ACTIVITY);
+
+/** Average of a running star total, or null when nobody has rated yet */
+export const averageRating = (sum?: number, count?: number) => (count && count > 0 ? (sum ?? 0) / count : null);
+
+/** Whether the user has joined; read from the activity itself, not the loaded Feed page */
+export const isParticipant = (activity: Pick<Activity, 'participantIds'>, userId: string) =>
+  activity.participantIds.includes(userId);
+
+/** Whether the user's join request is waiting for a host */
+export const isPending = (activity: Pick<Activity, 'pendingParticipantIds'>, userId: string) =>
+  (activity.pendingParticipantIds ?? []).includes(userId);
+
+/** 1-based waitlist position, or null when the user isn't waiting */
+export const getWaitlistPosition = (activity: Pick<Activity, 'waitlistIds'>, userId: string) => {
+  const index = (activity.waitlistIds ?? []).indexOf(userId);
+  return index === -1 ? null : index + 1;
+};
+
+/** True for the organizer (createdBy) and co-hosts (hostIds) */
+export const isActivityHost = (activity: Pick<Activity, 'createdBy' | 'hostIds'>, userId: string) =>
+  activity.createdBy?.userId === userId || (activity.hostIds ?? []).includes(userId);
+
 // Define activity interface with Firestore specifics
 // *** Add lastMessageTimestamp (optional) ***
 export interface Activity {
@@ -40,56 +153,276 @@ export interface Activity {
   location: string;
   latitude: number;
   longitude: number;
-  // Consider changing dateTime to Firestore Timestamp for consistency if possible
-  dateTime: string | FirestoreTimestamp; // Allow both for now if needed
+  // Always a Firestore Timestamp; legacy string values are rewritten by migrateActivityDateTimes
+  dateTime: FirestoreTimestamp;
   category: ActivityCategory;
   createdBy: {
     userId: string;
     displayName: string;
   };
   participantIds: string[];
+  // Co-hosts promoted by the organizer; they can edit, approve joins and moderate chat
+  hostIds?: string[];
   maxParticipants?: number;
   createdAt: number; // JS Timestamp (milliseconds from Date.now())
   isPublic: boolean;
+  // Hidden from the Feed and search; reachable through invite links (isPublic is false)
+  unlisted?: boolean;
   // *** Add the field here ***
   lastMessageTimestamp?: FirestoreTimestamp;
+  // Set by archivePastActivities once the activity is over
+  archived?: boolean;
+  // When true, joins go to pendingParticipantIds until the host approves them
+  requiresApproval?: boolean;
+  pendingParticipantIds?: string[];
+  // Ordered queue for full activities; promoteFromWaitlist moves users into participantIds
+  waitlistIds?: string[];
+  // Participants who checked in; finalizeAttendance turns this into profile counters
+  attendedIds?: string[];
+  attendanceTaken?: boolean;
+  // Free-form, normalized by onActivityTagsWritten (see normalizeTag)
+  tags?: string[];
+  // Uploaded cover; without one, coverPreset (or the category) picks the built-in artwork
+  coverImage?: CoverImage | null;
+  coverPreset?: string | null;
+  // Running totals kept by onReviewWritten (see averageRating)
+  ratingSum?: number;
+  ratingCount?: number;
+  reviewerIds?: string[];
+  // Tentative / declined answers keyed by user id (see getRsvpStatus)
+  rsvps?: Record<string, Exclude<RsvpStatus, 'going'>>;
+  // Cancelled activities stay in place (chat included); onActivityStatusChanged notifies everyone
+  status?: ActivityStatus;
+  cancellationReason?: string;
+  cancelledAt?: FirestoreTimestamp;
+  // Set on occurrences of a recurring series (activitySeries/{seriesId})
+  seriesId?: string;
+  occurrenceIndex?: number;
+  // Scheduling polls: dateTime holds the latest option until lockActivityDate picks one
+  dateOptions?: DateOption[];
+  dateVotes?: Record<string, string[]>;
+  lockedDateOptionId?: string;
 }
 
 // Define input type for creating activities
 export type NewActivity = Omit<
   Activity,
-  'id' | 'participantIds' | 'createdAt' | 'lastMessageTimestamp' // Exclude new field too
+  'id' | 'participantIds' | 'hostIds' | 'createdAt' | 'lastMessageTimestamp' | 'pendingParticipantIds' | 'waitlistIds' | 'rsvps' | 'attendedIds' | 'attendanceTaken' | 'ratingSum' | 'ratingCount' | 'reviewerIds' | 'seriesId' | 'occurrenceIndex' | 'status' | 'cancellationReason' | 'cancelledAt' | 'dateVotes' | 'lockedDateOptionId' // Exclude new field too
 >;
 
+// Fields copied from a series template onto every occurrence
+const SERIES_TEMPLATE_FIELDS = [
+  'title', 'description', 'location', 'latitude', 'longitude',
+  'category', 'maxParticipants', 'isPublic', 'unlisted', 'requiresApproval',
+  'coverImage', 'coverPreset', 'tags',
+] as const;
+
+// inviteLinks/{linkId}; the shareable token is only returned once, when the link is created
+export interface InviteLink {
+  id: string;
+  activityId: string;
+  createdBy: string;
+  createdAt: FirestoreTimestamp;
+  expiresAt: FirestoreTimestamp;
+  maxUses: number | null;
+  uses: number;
+  revoked: boolean;
+}
+
+// activities/{activityId}/edits/{editId}; appended by the onActivityDetailsChanged function
+export interface ActivityChange {
+  field: 'title' | 'dateTime' | 'location' | 'maxParticipants' | 'description';
+  // dateTime values are millis; maxParticipants null means unlimited
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface ActivityEdit {
+  id: string;
+  changes: ActivityChange[];
+  editedBy: string | null;
+  editedByName: string;
+  createdAt: FirestoreTimestamp | null;
+}
+
+// activities/{activityId}/reviews/{reviewerId}; written by the submitReview function
+export interface ActivityReview {
+  reviewerId: string;
+  reviewerName: string;
+  hostId: string;
+  activityRating: number;
+  hostRating: number;
+  comment: string;
+  createdAt: FirestoreTimestamp;
+  updatedAt: FirestoreTimestamp;
+}
+
+export type ReviewInput = Pick<ActivityReview, 'activityRating' | 'hostRating' | 'comment'>;
+
+// Area for bounded geohash queries; results still need an exact distance check
+export interface GeoArea {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+// Server-side filters for the Feed / My Activities queries
+export interface ActivityQueryOptions {
+  area?: GeoArea;
+  category?: ActivityCategory;
+  // Activities carrying this (normalized) tag
+  tag?: string;
+  // false = upcoming (default), true = archive
+  archived?: boolean;
+}
+
+const PAGE_SIZE = 20;
+const ACTIVITY_SEARCH_LIMIT = 30;
+
+// One paginated query; build(null) is the first (live) page
+interface PagedSource {
+  build: (cursor: QueryDocumentSnapshot<DocumentData> | null) => Query<DocumentData>;
+  lastDoc: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+  pagesLoaded: number;
+}
+
+interface FeedPager {
+  sources: PagedSource[];
+  addDocs: (docs: QueryDocumentSnapshot<DocumentData>[]) => void;
+}
+
+// Cursors of the most recent initializeListener call, used by loadMoreActivities
+let feedPager: FeedPager | null = null;
+
+// Maps a raw Firestore document onto Activity with safe defaults
+export const toActivity = (id: string, data: DocumentData): Activity => {
+  return {
+    id,
+    title: data.title || 'Untitled',
+    description: data.description || '',
+    location: data.location || 'No location',
+    latitude: typeof data.latitude === 'number' ? data.latitude : 0,
+    longitude: typeof data.longitude === 'number' ? data.longitude : 0,
+    dateTime: toTimestamp(data.dateTime) ?? FirestoreTimestamp.now(),
+    category: data.category || 'Other',
+    createdBy: {
+      userId: data.createdBy?.userId || 'unknown',
+      displayName: data.createdBy?.displayName || 'Unknown',
+    },
+    participantIds: Array.isArray(data.participantIds)
+      ? data.participantIds
+      : [],
+    hostIds: Array.isArray(data.hostIds) ? data.hostIds : [],
+    maxParticipants:
+      typeof data.maxParticipants === 'number'
+        ? data.maxParticipants
+        : undefined,
+    createdAt:
+      typeof data.createdAt === 'number'
+        ? data.createdAt
+        : Date.now(),
+    isPublic:
+      typeof data.isPublic === 'boolean' ? data.isPublic : true,
+    unlisted: data.unlisted === true,
+    coverImage: data.coverImage && typeof data.coverImage === 'object' ? data.coverImage : null,
+    coverPreset: typeof data.coverPreset === 'string' ? data.coverPreset : null,
+    tags: Array.isArray(data.tags) ? data.tags : [],
+    rsvps: data.rsvps && typeof data.rsvps === 'object' ? data.rsvps : {},
+    attendedIds: Array.isArray(data.attendedIds) ? data.attendedIds : [],
+    attendanceTaken: data.attendanceTaken === true,
+    ratingSum: typeof data.ratingSum === 'number' ? data.ratingSum : 0,
+    ratingCount: typeof data.ratingCount === 'number' ? data.ratingCount : 0,
+    reviewerIds: Array.isArray(data.reviewerIds) ? data.reviewerIds : [],
+    lastMessageTimestamp:
+      data.lastMessageTimestamp instanceof FirestoreTimestamp
+        ? data.lastMessageTimestamp
+        : undefined,
+    archived: data.archived === true,
+    status: data.status === 'cancelled' || data.status === 'scheduling' ? data.status : 'active',
+    cancellationReason:
+      typeof data.cancellationReason === 'string' ? data.cancellationReason : undefined,
+    cancelledAt:
+      data.cancelledAt instanceof FirestoreTimestamp ? data.cancelledAt : undefined,
+    requiresApproval: data.requiresApproval === true,
+    pendingParticipantIds: Array.isArray(data.pendingParticipantIds)
+      ? data.pendingParticipantIds
+      : [],
+    waitlistIds: Array.isArray(data.waitlistIds) ? data.waitlistIds : [],
+    seriesId: typeof data.seriesId === 'string' ? data.seriesId : undefined,
+    occurrenceIndex:
+      typeof data.occurrenceIndex === 'number' ? data.occurrenceIndex : undefined,
+    dateOptions: Array.isArray(data.dateOptions) ? data.dateOptions : undefined,
+    dateVotes: data.dateVotes && typeof data.dateVotes === 'object' ? data.dateVotes : {},
+    lockedDateOptionId: typeof data.lockedDateOptionId === 'string' ? data.lockedDateOptionId : undefined,
+  };
+};
+
 // Define store state
 interface ActivityState {
   activities: Activity[];
   isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
   error: Error | null;
   initializeListener: (
     userId: string,
     friendIds: string[],
-    showPrivate?: boolean
+    showPrivate?: boolean,
+    options?: ActivityQueryOptions
   ) => () => void;
-  createActivity: (activity: NewActivity) => Promise<string>;
+  loadMoreActivities: () => Promise<void>;
+  searchActivities: (searchQuery: string) => Promise<Activity[]>;
+  createActivity: (activity: NewActivity, coverFile?: File | null) => Promise<string>;
+  createActivitySeries: (activity: NewActivity, rule: RecurrenceRule, coverFile?: File | null) => Promise<string>;
+  uploadCover: (activityId: string, file: File) => Promise<CoverImage>;
+  updateActivitySeries: (activityId: string, data: Partial<Activity>) => Promise<void>;
   joinActivity: (activityId: string, userId: string) => Promise<void>;
+  requestToJoinActivity: (activityId: string, userId: string) => Promise<JoinStatus>;
+  approveJoinRequest: (activityId: string, hostId: string, userId: string) => Promise<void>;
+  denyJoinRequest: (activityId: string, hostId: string, userId: string) => Promise<void>;
   leaveActivity: (activityId: string, userId: string) => Promise<void>;
+  setRsvp: (activityId: string, status: RsvpStatus) => Promise<JoinStatus | null>;
+  setActivityHost: (activityId: string, userId: string, host: boolean) => Promise<void>;
+  getCheckInUrl: (activityId: string) => Promise<string>;
+  checkIn: (activityId: string, code: string) => Promise<void>;
+  setAttendance: (activityId: string, userId: string, attended: boolean) => Promise<void>;
+  voteOnDates: (activityId: string, userId: string, optionIds: string[]) => Promise<void>;
+  lockActivityDate: (activityId: string, optionId: string) => Promise<void>;
+  submitReview: (activityId: string, review: ReviewInput) => Promise<void>;
+  getReview: (activityId: string, userId: string) => Promise<ActivityReview | null>;
+  transferOwnership: (activityId: string, newOwnerId: string) => Promise<void>;
+  createInviteLink: (activityId: string, options: { expiresInHours: number; maxUses?: number | null }) => Promise<string>;
+  revokeInviteLink: (linkId: string) => Promise<void>;
+  getInviteLinks: (activityId: string) => Promise<InviteLink[]>;
+  getActivityEdits: (activityId: string) => Promise<ActivityEdit[]>;
+  verifyInviteToken: (token: string) => Promise<string>;
+  joinWithInviteToken: (token: string) => Promise<JoinStatus>;
+  joinWaitlist: (activityId: string, userId: string) => Promise<void>;
+  leaveWaitlist: (activityId: string, userId: string) => Promise<void>;
   deleteActivity: (activityId: string, userId: string) => Promise<void>;
-  isParticipant: (activityId: string, userId: string) => boolean;
+  cancelActivity: (activityId: string, userId: string, reason?: string) => Promise<void>;
+  uncancelActivity: (activityId: string, userId: string) => Promise<void>;
   updateActivity: (activityId: string, data: Partial<Activity>) => Promise<void>;
 }
 
 export const useActivityStore = create<ActivityState>((set, get) => ({
   activities: [],
   isLoading: false,
+  isLoadingMore: false,
+  hasMore: false,
   error: null,
   initializeListener: (
     userId: string,
     friendIds: string[],
-    showFriendsOnly = false
+    showFriendsOnly = false,
+    options: ActivityQueryOptions = {}
   ) => {
-    set({ isLoading: true, error: null });
+    set({ isLoading: true, error: null, hasMore: false });
     const dbRef = collection(db, 'activities');
+    const { area, category, tag, archived = false } = options;
+    // Upcoming: soonest first. Archive: most recent first.
+    const direction = archived ? 'desc' : 'asc';
   
     // build your final unique set here
     const allCreatorIds = Array.from(new Set([...friendIds, userId]));
@@ -97,9 +430,33 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
   
     const unsubscribers: (() => void)[] = [];
     const activitiesMap = new Map<string, Activity>();
+
+    // Filters live in the query so every page comes back full (tags + category
+    // have their own composite indexes)
+    const filters: QueryConstraint[] = [
+      where('archived', '==', archived),
+      ...(tag ? [where('tags', 'array-contains', tag)] : []),
+      ...(category && category !== ALL_CATEGORIES ? [where('category', '==', category)] : []),
+    ];
   
-  
+    const publish = () => {
+      const activitiesArray = Array.from(activitiesMap.values()).sort((a, b) =>
+        direction === 'asc'
+          ? a.dateTime.toMillis() - b.dateTime.toMillis()
+          : b.dateTime.toMillis() - a.dateTime.toMillis()
+      );
 
+      console.log(
+        `%cDEBUG: Realtime update, total activities: ${activitiesArray.length}`,
+        'color: green'
+      );
+      set({ activities: activitiesArray, isLoading: false });
+    };
+
+    const addDocs = (docs: QueryDocumentSnapshot<DocumentData>[]) => {
+      docs.forEach((d) => activitiesMap.set(d.id, toActivity(d.id, d.data())));
+      publish();
+    };
   
     const processSnapshot = (snapshot: QuerySnapshot<DocumentData>) => {
       let hasChanged = false;
@@ -114,39 +471,7 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
           return;
         }
   
-        const data = change.doc.data();
-        const activity: Activity = {
-          id: activityId,
-          title: data.title || 'Untitled',
-          description: data.description || '',
-          location: data.location || 'No location',
-          latitude: typeof data.latitude === 'number' ? data.latitude : 0,
-          longitude: typeof data.longitude === 'number' ? data.longitude : 0,
-          dateTime: data.dateTime || new Date().toISOString(),
-          category: data.category || 'Other',
-          createdBy: {
-            userId: data.createdBy?.userId || 'unknown',
-            displayName: data.createdBy?.displayName || 'Unknown',
-          },
-          participantIds: Array.isArray(data.participantIds)
-            ? data.participantIds
-            : [],
-          maxParticipants:
-            typeof data.maxParticipants === 'number'
-              ? data.maxParticipants
-              : undefined,
-          createdAt:
-            typeof data.createdAt === 'number'
-              ? data.createdAt
-              : Date.now(),
-          isPublic:
-            typeof data.isPublic === 'boolean' ? data.isPublic : true,
-          lastMessageTimestamp:
-            data.lastMessageTimestamp instanceof FirestoreTimestamp
-              ? data.lastMessageTimestamp
-              : undefined,
-        };
-  
+        const activity = toActivity(activityId, change.doc.data());
         const prev = activitiesMap.get(activityId);
         if (!prev || JSON.stringify(prev) !== JSON.stringify(activity)) {
           activitiesMap.set(activityId, activity);
@@ -154,24 +479,8 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
         }
       });
   
-      if (hasChanged) {
-        const activitiesArray = Array.from(activitiesMap.values()).sort((a, b) => {
-          const timeA =
-            a.dateTime instanceof FirestoreTimestamp
-              ? a.dateTime.toMillis()
-              : new Date(a.dateTime).getTime();
-          const timeB =
-            b.dateTime instanceof FirestoreTimestamp
-              ? b.dateTime.toMillis()
-              : new Date(b.dateTime).getTime();
-          return timeA - timeB;
-        });
-  
-        console.log(
-          `%cDEBUG: Realtime update, total activities: ${activitiesArray.length}`,
-          'color: green'
-        );
-        set({ activities: activitiesArray, isLoading: false });
+      if (hasChanged || snapshot.empty) {
+        publish();
       }
     };
   
@@ -179,47 +488,207 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
       console.error('Snapshot error:', err);
       set({ error: err, isLoading: false });
     };
+
+    const sources: PagedSource[] = [];
+
+    // Only the first page of each source is live; later pages are fetched once
+    const subscribeSource = (build: PagedSource['build']) => {
+      const source: PagedSource = { build, lastDoc: null, hasMore: false, pagesLoaded: 0 };
+      sources.push(source);
+      unsubscribers.push(
+        onSnapshot(
+          query(build(null), limit(PAGE_SIZE)),
+          (snapshot) => {
+            // Once older pages are loaded the cursor belongs to loadMoreActivities
+            if (source.pagesLoaded === 0) {
+              source.lastDoc = snapshot.docs[snapshot.docs.length - 1] ?? null;
+              source.hasMore = snapshot.size === PAGE_SIZE;
+              set({ hasMore: sources.some((s) => s.hasMore) });
+            }
+            processSnapshot(snapshot);
+          },
+          handleError
+        )
+      );
+    };
   
-     
-  // only subscribe to public if showFriendsOnly is false
-  if (!showFriendsOnly) {
-    const publicQ = query(
-      dbRef,
-      where('isPublic', '==', true),
-      orderBy('dateTime', 'asc'),
+  if (!showFriendsOnly && area) {
+    // geohash is written by onActivityCreated / onActivityLocationChanged.
+    // Pages of a geohash-ordered query aren't in date order, so each bound is
+    // loaded whole (and kept live) instead of paginated.
+    const bounds = geohashQueryBounds([area.lat, area.lng], area.radiusKm * 1000);
+    for (const [start, end] of bounds) {
+      unsubscribers.push(
+        onSnapshot(
+          query(
+            dbRef,
+            where('isPublic', '==', true),
+            ...filters,
+            orderBy('geohash'),
+            startAt(start),
+            endAt(end),
+          ),
+          processSnapshot,
+          handleError
+        )
+      );
+    }
+  } else if (!showFriendsOnly) {
+    subscribeSource((cursor) =>
+      query(
+        dbRef,
+        where('isPublic', '==', true),
+        ...filters,
+        orderBy('dateTime', direction),
+        ...(cursor ? [startAfter(cursor)] : []),
+      )
     );
-    unsubscribers.push(onSnapshot(publicQ, processSnapshot, handleError));
   }
 
   // chunk the allCreatorIds into 10‑sized slices
   for (let i = 0; i < allCreatorIds.length; i += 10) {
     const chunk = allCreatorIds.slice(i, i + 10);
-    const privateQ = query(
-      dbRef,
-      where('createdBy.userId', 'in', chunk),
-      orderBy('dateTime', 'asc')  // make sure you have the composite index, or remove this
+    subscribeSource((cursor) =>
+      query(
+        dbRef,
+        where('createdBy.userId', 'in', chunk),
+        ...filters,
+        orderBy('dateTime', direction),
+        ...(cursor ? [startAfter(cursor)] : []),
+      )
     );
-    unsubscribers.push(onSnapshot(privateQ, processSnapshot, handleError));
   }
 
-  return () => unsubscribers.forEach((u) => u());
+  const pager: FeedPager = { sources, addDocs };
+  feedPager = pager;
+
+  return () => {
+    unsubscribers.forEach((u) => u());
+    if (feedPager === pager) feedPager = null;
+  };
 },
 
+  // --- Load Next Page (non-live) for every source that still has more ---
+  loadMoreActivities: async () => {
+    const pager = feedPager;
+    if (!pager || get().isLoadingMore) return;
+
+    const pending = pager.sources.filter((s) => s.hasMore && s.lastDoc);
+    if (pending.length === 0) {
+      set({ hasMore: false });
+      return;
+    }
+
+    set({ isLoadingMore: true });
+    try {
+      const snapshots = await Promise.all(
+        pending.map((s) => getDocs(query(s.build(s.lastDoc), limit(PAGE_SIZE))))
+      );
+      // The listener was replaced (filters changed) while we were loading
+      if (feedPager !== pager) return;
+
+      snapshots.forEach((snapshot, i) => {
+        const source = pending[i];
+        source.pagesLoaded++;
+        source.lastDoc = snapshot.docs[snapshot.docs.length - 1] ?? source.lastDoc;
+        source.hasMore = snapshot.size === PAGE_SIZE;
+        pager.addDocs(snapshot.docs);
+      });
+      console.log(`%cDEBUG: activityStore.loadMoreActivities - Loaded ${snapshots.reduce((n, s) => n + s.size, 0)} more activities.`, 'color: green;');
+      set({ hasMore: pager.sources.some((s) => s.hasMore) });
+    } catch (error) {
+      console.error('%cDEBUG: activityStore.loadMoreActivities - Error:', 'color: red;', error);
+      set({ error: error as Error });
+    } finally {
+      set({ isLoadingMore: false });
+    }
+  },
+
+  // --- Search upcoming public + friends' activities by keyword, best matches first ---
+  searchActivities: async (searchQuery) => {
+    try {
+      const tokens = searchTokens(searchQuery);
+      const token = primaryToken(tokens);
+      if (!token) return [];
+
+      // searchKeywords is maintained by onActivityCreated / onActivitySearchFieldsChanged
+      const dbRef = collection(db, 'activities');
+      const queries = [
+        query(
+          dbRef,
+          where('searchKeywords', 'array-contains', token),
+          where('isPublic', '==', true),
+          where('archived', '==', false),
+          limit(ACTIVITY_SEARCH_LIMIT)
+        ),
+      ];
+      const friendIds = useFriendsStore.getState().friends;
+      for (let i = 0; i < friendIds.length; i += 10) {
+        queries.push(
+          query(
+            dbRef,
+            where('searchKeywords', 'array-contains', token),
+            where('createdBy.userId', 'in', friendIds.slice(i, i + 10)),
+            where('archived', '==', false),
+            limit(ACTIVITY_SEARCH_LIMIT)
+          )
+        );
+      }
+
+      const snapshots = await Promise.all(queries.map((q) => getDocs(q)));
+      const results = new Map<string, { activity: Activity; score: number }>();
+      snapshots.forEach((snapshot) =>
+        snapshot.docs.forEach((d) => {
+          const data = d.data();
+          // Unlisted activities are only reachable through invite links
+          if (results.has(d.id) || data.unlisted === true) return;
+          const score = scoreMatch(tokens, data.searchKeywords || [], [
+            { text: data.title, weight: 3 },
+            { text: data.location, weight: 2 },
+            { text: data.description, weight: 1 },
+          ]);
+          if (score !== null) results.set(d.id, { activity: toActivity(d.id, data), score });
+        })
+      );
+
+      console.log(`%cDEBUG: activityStore.searchActivities - "${searchQuery}" → ${results.size} result(s).`, 'color: blue;');
+      return Array.from(results.values())
+        .sort((a, b) => b.score - a.score || a.activity.dateTime.toMillis() - b.activity.dateTime.toMillis())
+        .map((r) => r.activity);
+    } catch (error) {
+      console.error('%cDEBUG: activityStore.searchActivities - Error:', 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
   // --- Create Activity ---
-  createActivity: async (activity) => {
+  createActivity: async (activity, coverFile) => {
      console.log('%cDEBUG: activityStore.createActivity - Attempting to create:', 'color: blue;', activity);
     try {
-      const { title, description, location, latitude, longitude, dateTime, category, createdBy, maxParticipants, isPublic } =
+      const { title, description, location, latitude, longitude, category, createdBy, maxParticipants, isPublic, unlisted, requiresApproval, coverPreset, tags, dateOptions } =
         activity;
+      // Polls start out dated at their latest option (see DateOption)
+      const scheduling = (dateOptions?.length ?? 0) > 0;
+      if (scheduling && (dateOptions!.length < MIN_DATE_OPTIONS || dateOptions!.length > MAX_DATE_OPTIONS)) {
+        throw new Error(`A date poll needs between ${MIN_DATE_OPTIONS} and ${MAX_DATE_OPTIONS} options`);
+      }
+      const dateTime = scheduling
+        ? dateOptions!.reduce((latest, option) => (option.dateTime.toMillis() > latest.toMillis() ? option.dateTime : latest), dateOptions![0].dateTime)
+        : activity.dateTime;
 
       // Basic validation
-      if (!title || !description || !location || !dateTime || !category || !createdBy?.userId) {
+      const timestamp = toTimestamp(dateTime);
+      if (!title || !description || !location || !timestamp || !category || !createdBy?.userId) {
          console.error('%cDEBUG: activityStore.createActivity - Missing required fields', 'color: red;', activity);
         throw new Error('Missing required fields for activity (title, description, location, dateTime, category, createdBy.userId)');
       }
 
       const activityRef = doc(collection(db, 'activities')); // Generate new Doc Ref
       const creationTimeMillis = Date.now(); // JS Timestamp for createdAt
+      // The id exists before the document, so the cover can live under it from the start
+      // Templates and duplicates reuse an already-uploaded cover
+      const coverImage = coverFile ? await uploadActivityCover(activityRef.id, coverFile) : activity.coverImage ?? null;
 
       // *** Convert creationTimeMillis to Firestore Timestamp for lastMessageTimestamp ***
       const initialLastMessageTimestamp = FirestoreTimestamp.fromMillis(creationTimeMillis);
@@ -230,8 +699,7 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
         location,
         latitude: latitude ?? 0, // Default latitude
         longitude: longitude ?? 0, // Default longitude
-        // Store dateTime as provided (string or Timestamp) - Consider standardizing to Timestamp later
-        dateTime: dateTime,
+        dateTime: timestamp,
         category,
         createdBy: {
           userId: createdBy.userId,
@@ -243,7 +711,16 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
         lastMessageTimestamp: initialLastMessageTimestamp,
         // Only include maxParticipants if it's a positive number
         ...(maxParticipants && maxParticipants > 0 && { maxParticipants }),
-        isPublic: isPublic ?? true, // Default to public if not specified
+        isPublic: unlisted ? false : isPublic ?? true, // Default to public if not specified
+        unlisted: unlisted === true,
+        requiresApproval: requiresApproval ?? false,
+        pendingParticipantIds: [],
+        waitlistIds: [],
+        status: scheduling ? 'scheduling' : 'active',
+        ...(scheduling && { dateOptions, dateVotes: {} }),
+        coverImage,
+        coverPreset: coverPreset ?? null,
+        tags: cleanTags(tags),
       };
 
       console.log('%cDEBUG: activityStore.createActivity - Data to be set:', 'color: blue;', newActivityData);
@@ -262,6 +739,129 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
     }
   },
 
+  // --- Create Recurring Series ---
+  // Only the series doc is written here; onActivitySeriesCreated materializes
+  // the first occurrences and archivePastActivities keeps the horizon filled.
+  createActivitySeries: async (activity, rule, coverFile) => {
+    console.log('%cDEBUG: activityStore.createActivitySeries - Attempting to create:', 'color: blue;', activity, rule);
+    try {
+      const { createdBy, maxParticipants } = activity;
+      const dateTime = toTimestamp(activity.dateTime);
+      if (!activity.title || !activity.description || !activity.location || !dateTime || !activity.category || !createdBy?.userId) {
+        throw new Error('Missing required fields for activity (title, description, location, dateTime, category, createdBy.userId)');
+      }
+
+      const start = dateTime.toDate();
+      const occurrenceDates = buildOccurrenceDates(start, rule);
+      if (occurrenceDates.length < 2) {
+        throw new Error('A recurring activity needs at least two occurrences');
+      }
+
+      const seriesRef = doc(collection(db, 'activitySeries'));
+      // Occurrences copy the template, so they all share the series' cover
+      const coverImage = coverFile ? await uploadActivityCover(`series_${seriesRef.id}`, coverFile) : activity.coverImage ?? null;
+      await setDoc(seriesRef, {
+        createdBy: {
+          userId: createdBy.userId,
+          displayName: createdBy.displayName || 'Anonymous',
+        },
+        recurrence: {
+          frequency: rule.frequency,
+          ...(rule.count && { count: rule.count }),
+          ...(rule.until && { until: FirestoreTimestamp.fromDate(rule.until) }),
+        },
+        template: {
+          title: activity.title,
+          description: activity.description,
+          location: activity.location,
+          latitude: activity.latitude ?? 0,
+          longitude: activity.longitude ?? 0,
+          category: activity.category,
+          ...(maxParticipants && maxParticipants > 0 && { maxParticipants }),
+          isPublic: activity.unlisted ? false : activity.isPublic ?? true,
+          unlisted: activity.unlisted === true,
+          requiresApproval: activity.requiresApproval ?? false,
+          coverImage,
+          coverPreset: activity.coverPreset ?? null,
+          tags: cleanTags(activity.tags),
+        },
+        occurrenceDates: occurrenceDates.map((d) => FirestoreTimestamp.fromDate(d)),
+        occurrencesCreated: 0,
+        active: true,
+        createdAt: Date.now(),
+      });
+      console.log(`%cDEBUG: activityStore.createActivitySeries - Created series ${seriesRef.id} with ${occurrenceDates.length} occurrences.`, 'color: green;');
+
+      return seriesRef.id;
+    } catch (error) {
+      console.error('%cDEBUG: activityStore.createActivitySeries - Error:', 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Update This And All Future Occurrences ---
+  // A dateTime change is applied as a shift, so each occurrence keeps its own date.
+  updateActivitySeries: async (activityId, data) => {
+    try {
+      const activityDoc = await getDoc(doc(db, 'activities', activityId));
+      if (!activityDoc.exists()) {
+        throw new Error('Activity not found');
+      }
+      const { seriesId, occurrenceIndex } = activityDoc.data();
+      const dateTime = toTimestamp(activityDoc.data().dateTime);
+      if (!seriesId || !dateTime) {
+        throw new Error('This activity is not part of a series');
+      }
+
+      const newDateTime = data.dateTime ? toTimestamp(data.dateTime) : null;
+      const shiftMillis = newDateTime ? newDateTime.toMillis() - dateTime.toMillis() : 0;
+      const shift = (ts: FirestoreTimestamp) => FirestoreTimestamp.fromMillis(ts.toMillis() + shiftMillis);
+
+      const { dateTime: _ignored, ...fields } = data;
+      const batch = writeBatch(db);
+
+      const futureSnap = await getDocs(
+        query(
+          collection(db, 'activities'),
+          where('seriesId', '==', seriesId),
+          where('dateTime', '>=', dateTime)
+        )
+      );
+      futureSnap.forEach((occurrence) => {
+        batch.update(occurrence.ref, {
+          ...fields,
+          dateTime: shift(occurrence.data().dateTime),
+        });
+      });
+
+      // Keep not-yet-materialized occurrences in sync via the series doc
+      const seriesRef = doc(db, 'activitySeries', seriesId);
+      const seriesDoc = await getDoc(seriesRef);
+      if (seriesDoc.exists()) {
+        const seriesData = seriesDoc.data();
+        const templateUpdates: Record<string, unknown> = {};
+        SERIES_TEMPLATE_FIELDS.forEach((key) => {
+          if (key in fields) templateUpdates[`template.${key}`] = fields[key];
+        });
+        const occurrenceDates: FirestoreTimestamp[] = seriesData.occurrenceDates || [];
+        batch.update(seriesRef, {
+          ...templateUpdates,
+          occurrenceDates: occurrenceDates.map((ts, index) =>
+            index >= (occurrenceIndex ?? 0) ? shift(ts) : ts
+          ),
+        });
+      }
+
+      await batch.commit();
+      console.log(`%cDEBUG: activityStore.updateActivitySeries - Updated ${futureSnap.size} occurrence(s) of ${seriesId}.`, 'color: green;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.updateActivitySeries - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
   updateLastMessage: async (
     activityId: string,
     text: string,
@@ -280,39 +880,79 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
     });
   },
 
+  // Replacing a cover: upload here, then save it with updateActivity / updateActivitySeries
+  uploadCover: async (activityId, file) => {
+    try {
+      return await uploadActivityCover(activityId, file);
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.uploadCover - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
     /** Edit an existing activity document */
    updateActivity: async (activityId, data) => {
      const ref = doc(db, 'activities', activityId);
-     // If dateTime was edited as a string, convert to Timestamp
-     if (typeof data.dateTime === 'string') {
-       data.dateTime = FirestoreTimestamp.fromDate(new Date(data.dateTime));
+     // Never write anything but a Timestamp into dateTime
+     if (data.dateTime !== undefined) {
+       const timestamp = toTimestamp(data.dateTime);
+       if (!timestamp) throw new Error('Invalid activity date');
+       data = { ...data, dateTime: timestamp };
      }
      await updateDoc(ref, data);
    },
 
   // --- Join Activity ---
   joinActivity: async (activityId, userId) => {
-    // 1) Firestore: add user to participantIds
-    const activityRef = doc(db, 'activities', activityId);
-    await updateDoc(activityRef, {
-      participantIds: arrayUnion(userId),
-    });
+    try {
+      const { data } = await joinActivityCallable({ activityId });
+      console.log(`%cDEBUG: activityStore.joinActivity - ${userId} → ${activityId}: ${data.status}`, 'color: green;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.joinActivity - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
 
-  // 2) RTDB: write member with correct displayName
-  const auth = getAuth(firebaseApp);
-  const currentUser = auth.currentUser!;
-  const displayName = currentUser.displayName || "Anonymous";
-
-  const memberRef = rtdbRef(
-    realtimeDb,
-    `activity-chats/${activityId}/members/${userId}`
-  );
-  await rtdbSet(memberRef, {
-    userId,
-    displayName,
-    joinedAt: Date.now()
-  });
-    console.log(`User ${displayName} joined RTDB chat members for activity ${activityId}`);
+  // --- Request to Join (the server decides between joining and a pending request) ---
+  requestToJoinActivity: async (activityId, userId) => {
+    try {
+      // Host is notified by the onJoinRequestChanged function
+      const { data } = await joinActivityCallable({ activityId });
+      console.log(`%cDEBUG: activityStore.requestToJoinActivity - ${userId} → ${activityId}: ${data.status}`, 'color: blue;');
+      return data.status;
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.requestToJoinActivity - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Approve Join Request (host only) ---
+  approveJoinRequest: async (activityId, hostId, userId) => {
+    try {
+      // Same transaction as joinActivity (capacity, blocklist); chat membership and the
+      // requester's notification follow from onParticipantAdded / onJoinRequestChanged
+      await respondToJoinRequestCallable({ activityId, userId, approve: true });
+      console.log(`%cDEBUG: activityStore.approveJoinRequest - ${userId} approved for ${activityId} by ${hostId}.`, 'color: green;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.approveJoinRequest - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Deny Join Request (host only) ---
+  denyJoinRequest: async (activityId, hostId, userId) => {
+    try {
+      await respondToJoinRequestCallable({ activityId, userId, approve: false });
+      console.log(`%cDEBUG: activityStore.denyJoinRequest - ${userId} denied for ${activityId} by ${hostId}.`, 'color: orange;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.denyJoinRequest - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
   },
   
   // --- Leave Activity ---
@@ -322,38 +962,15 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
       if (!activityId || !userId) {
         throw new Error('Activity ID and user ID are required');
       }
-  
-      const activityRef = doc(db, 'activities', activityId);
-      const activityDoc = await getDoc(activityRef);
-  
-      if (!activityDoc.exists()) {
-        console.warn(`%cDEBUG: activityStore.leaveActivity - Activity ${activityId} not found.`, 'color: orange;');
-        throw new Error('Activity not found');
-      }
-  
-      const activityData = activityDoc.data();
-  
-      // 🛑 Prevent creator from leaving their own activity
-      if (activityData?.createdBy?.userId === userId) {
-        console.error(`%cDEBUG: activityStore.leaveActivity - Creator ${userId} cannot leave their own activity ${activityId}.`, 'color: red;');
-        throw new Error('You cannot leave an activity you created.');
-      }
-  
-      // Atomically remove user ID
-      await updateDoc(activityRef, {
-        participantIds: arrayRemove(userId),
-      });
-      console.log(`%cDEBUG: activityStore.leaveActivity - Firestore updated for ${activityId}.`, 'color: orange;');
-  
-      // Leave the activity chat using the chatStore
-      try {
-        console.log(`%cDEBUG: activityStore.leaveActivity - Calling chatStore.leaveActivityChat for ${activityId}.`, 'color: orange;');
-        await useChatStore.getState().leaveActivityChat(activityId, userId);
-        console.log(`%cDEBUG: activityStore.leaveActivity - chatStore.leaveActivityChat completed for ${activityId}.`, 'color: green;');
-      } catch (chatError) {
-        console.error('%cDEBUG: activityStore.leaveActivity - Error calling leaveActivityChat, continuing leave operation:', 'color: red;', chatError);
+
+      // The server rejects the organizer (who must transfer ownership first) and clears Firestore + RTDB membership together
+      await leaveActivityCallable({ activityId });
+      console.log(`%cDEBUG: activityStore.leaveActivity - Server removed ${userId} from ${activityId}.`, 'color: orange;');
+
+      if (useChatStore.getState().currentChatId === activityId) {
+        useChatStore.getState().unsubscribeFromChat();
       }
-  
+
       console.log(`User ${userId} left activity ${activityId}`);
     } catch (error) {
       console.error(`%cDEBUG: activityStore.leaveActivity - Error leaving activity ${activityId}:`, 'color: red;', error);
@@ -362,15 +979,226 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
     }
   },
 
-  // --- isParticipant (uses local state) ---
-  isParticipant: (activityId, userId) => {
-    if (!activityId || !userId) return false;
-    const activity = get().activities.find(a => a.id === activityId);
-    const isPart = !!activity && Array.isArray(activity.participantIds) && activity.participantIds.includes(userId);
-    // console.log(`%cDEBUG: activityStore.isParticipant - Activity: ${activityId}, User: ${userId}, Result: ${isPart}`, 'color: gray;');
-    return isPart;
+  // --- RSVP: "going" joins (approval / waitlist apply), maybe and can't go free the spot ---
+  setRsvp: async (activityId, status) => {
+    try {
+      const { data } = await setRsvpCallable({ activityId, status });
+      console.log(`%cDEBUG: activityStore.setRsvp - ${activityId}: ${data.status} (${data.joinStatus ?? '-'})`, 'color: blue;');
+
+      if (status !== 'going' && useChatStore.getState().currentChatId === activityId) {
+        useChatStore.getState().unsubscribeFromChat();
+      }
+      return data.joinStatus;
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.setRsvp - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Attendance (hosts show the QR / tick people off; participants scan it) ---
+  getCheckInUrl: async (activityId) => {
+    const { data } = await getCheckInCodeCallable({ activityId });
+    return data.url;
+  },
+
+  checkIn: async (activityId, code) => {
+    try {
+      await checkInCallable({ activityId, code });
+      console.log(`%cDEBUG: activityStore.checkIn - Checked in to ${activityId}`, 'color: green;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.checkIn - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  setAttendance: async (activityId, userId, attended) => {
+    try {
+      await setAttendanceCallable({ activityId, userId, attended });
+      console.log(`%cDEBUG: activityStore.setAttendance - ${userId} on ${activityId}: ${attended}`, 'color: blue;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.setAttendance - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Scheduling polls ---
+  // Replaces the user's whole set of available options
+  voteOnDates: async (activityId, userId, optionIds) => {
+    try {
+      await updateDoc(doc(db, 'activities', activityId), { [`dateVotes.${userId}`]: optionIds });
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.voteOnDates - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  lockActivityDate: async (activityId, optionId) => {
+    try {
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      await lockActivityDateCallable({ activityId, optionId, timeZone });
+      console.log(`%cDEBUG: activityStore.lockActivityDate - ${activityId} set to ${optionId}`, 'color: green;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.lockActivityDate - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Reviews (one per participant; aggregates are kept by onReviewWritten) ---
+  submitReview: async (activityId, review) => {
+    try {
+      const { data } = await submitReviewCallable({ activityId, ...review });
+      console.log(`%cDEBUG: activityStore.submitReview - ${data.status} review for ${activityId}`, 'color: green;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.submitReview - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  getReview: async (activityId, userId) => {
+    const snap = await getDoc(doc(db, 'activities', activityId, 'reviews', userId));
+    return snap.exists() ? (snap.data() as ActivityReview) : null;
+  },
+
+  // --- Promote / demote a co-host (organizer only, checked on the server) ---
+  setActivityHost: async (activityId, userId, host) => {
+    try {
+      const { data } = await setActivityHostCallable({ activityId, userId, host });
+      console.log(`%cDEBUG: activityStore.setActivityHost - ${userId} on ${activityId}: ${data.status}`, 'color: blue;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.setActivityHost - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Transfer ownership to another participant; the old organizer stays a co-host ---
+  transferOwnership: async (activityId, newOwnerId) => {
+    try {
+      await transferOwnershipCallable({ activityId, newOwnerId });
+      console.log(`%cDEBUG: activityStore.transferOwnership - ${activityId} → ${newOwnerId}`, 'color: blue;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.transferOwnership - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Invite links (hosts create/revoke; anyone signed in can redeem) ---
+  createInviteLink: async (activityId, options) => {
+    try {
+      const { data } = await createInviteLinkCallable({ activityId, ...options });
+      console.log(`%cDEBUG: activityStore.createInviteLink - ${data.linkId} for ${activityId}`, 'color: blue;');
+      return data.url;
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.createInviteLink - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  revokeInviteLink: async (linkId) => {
+    try {
+      await revokeInviteLinkCallable({ linkId });
+      console.log(`%cDEBUG: activityStore.revokeInviteLink - ${linkId} revoked`, 'color: orange;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.revokeInviteLink - Error for ${linkId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  getInviteLinks: async (activityId) => {
+    const snapshot = await getDocs(
+      query(collection(db, 'inviteLinks'), where('activityId', '==', activityId), orderBy('createdAt', 'desc'))
+    );
+    return snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as InviteLink));
+  },
+
+  // Newest first
+  getActivityEdits: async (activityId) => {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'activities', activityId, 'edits'), orderBy('createdAt', 'desc')));
+      return snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as ActivityEdit));
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.getActivityEdits - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // Resolves to the activity id when the token is valid; throws otherwise
+  verifyInviteToken: async (token) => {
+    const { data } = await redeemInviteLinkCallable({ token });
+    return data.activityId;
+  },
+
+  joinWithInviteToken: async (token) => {
+    try {
+      const { data } = await redeemInviteLinkCallable({ token, join: true });
+      console.log(`%cDEBUG: activityStore.joinWithInviteToken - ${data.activityId}: ${data.joinStatus}`, 'color: green;');
+      return data.joinStatus!;
+    } catch (error) {
+      console.error('%cDEBUG: activityStore.joinWithInviteToken - Error:', 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Join Waitlist (only once the activity is full) ---
+  joinWaitlist: async (activityId, userId) => {
+    try {
+      // The server appends to waitlistIds, so the array order is the queue order
+      const { data } = await joinActivityCallable({ activityId, waitlist: true });
+      console.log(`%cDEBUG: activityStore.joinWaitlist - ${userId} → ${activityId}: ${data.status}`, 'color: blue;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.joinWaitlist - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Leave Waitlist (leaveActivity clears every membership list) ---
+  leaveWaitlist: async (activityId, userId) => {
+    try {
+      await leaveActivityCallable({ activityId });
+      console.log(`%cDEBUG: activityStore.leaveWaitlist - ${userId} left the waitlist of ${activityId}.`, 'color: orange;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.leaveWaitlist - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+
+  // --- Cancel Activity (owner only; keeps the doc and chat, participants are notified) ---
+  cancelActivity: async (activityId, userId, reason) => {
+    try {
+      await setActivityCancelledCallable({ activityId, cancelled: true, reason: reason?.trim() || undefined });
+      console.log(`%cDEBUG: activityStore.cancelActivity - ${activityId} cancelled by ${userId}.`, 'color: orange;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.cancelActivity - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // --- Un-cancel Activity (owner only, within UNCANCEL_WINDOW_MS and before it starts; checked server-side) ---
+  uncancelActivity: async (activityId, userId) => {
+    try {
+      await setActivityCancelledCallable({ activityId, cancelled: false });
+      console.log(`%cDEBUG: activityStore.uncancelActivity - ${activityId} restored by ${userId}.`, 'color: green;');
+    } catch (error) {
+      console.error(`%cDEBUG: activityStore.uncancelActivity - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
   },
-  
 
    // --- Delete Activity ---
   deleteActivity: async (activityId, userId) => {
@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import { firebaseApp } from 'app';
+import {
+  getFirestore,
+  collection,
+  doc,
+  setDoc,
+  onSnapshot,
+  query,
+  orderBy,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import { uploadActivityPhoto } from './fileStorage';
+
+// Initialize Firestore
+const db = getFirestore(firebaseApp);
+
+// activities/{activityId}/photos/{photoId}; lives in Firestore + Storage, so
+// it outlasts the RTDB chat that cleanupInactiveChats removes after 5 days
+export interface AlbumPhoto {
+  id: string;
+  uploaderId: string;
+  uploaderName: string;
+  url: string;
+  thumbUrl: string;
+  path: string;
+  thumbPath: string;
+  createdAt: Timestamp | null;
+}
+
+const deleteActivityPhotoCallable = httpsCallable<{ activityId: string; photoId: string }, { status: 'deleted' }>(functions, 'deleteActivityPhoto');
+
+type Unsubscribe = () => void;
+interface AlbumState {
+  // Photos of the album currently open, oldest first
+  photos: AlbumPhoto[];
+  isLoading: boolean;
+  isUploading: boolean;
+  error: Error | null;
+
+  subscribeToAlbum: (activityId: string) => Unsubscribe;
+  uploadPhotos: (activityId: string, files: File[], uploader: { uid: string; displayName: string | null }) => Promise<void>;
+  deletePhoto: (activityId: string, photoId: string) => Promise<void>;
+}
+
+export const useAlbumStore = create<AlbumState>((set) => ({
+  photos: [],
+  isLoading: false,
+  isUploading: false,
+  error: null,
+
+  subscribeToAlbum: (activityId: string) => {
+    set({ photos: [], isLoading: true });
+    const albumQuery = query(collection(db, 'activities', activityId, 'photos'), orderBy('createdAt', 'asc'));
+    return onSnapshot(albumQuery, (snapshot) => {
+      set({
+        photos: snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as AlbumPhoto)),
+        isLoading: false,
+      });
+    }, (error) => {
+      console.error('Error in album listener:', error);
+      set({ error: error as Error, isLoading: false });
+    });
+  },
+
+  // Uploads one at a time so a large batch doesn't hold every decoded image in memory
+  uploadPhotos: async (activityId, files, uploader) => {
+    set({ isUploading: true });
+    try {
+      for (const file of files) {
+        const uploaded = await uploadActivityPhoto(activityId, file);
+        await setDoc(doc(db, 'activities', activityId, 'photos', uploaded.photoId), {
+          uploaderId: uploader.uid,
+          uploaderName: uploader.displayName || `User-${uploader.uid.substring(0, 5)}`,
+          url: uploaded.url,
+          thumbUrl: uploaded.thumbUrl,
+          path: uploaded.path,
+          thumbPath: uploaded.thumbPath,
+          createdAt: serverTimestamp(),
+        });
+      }
+      console.log(`%cDEBUG: albumStore.uploadPhotos - ${files.length} photo(s) added to ${activityId}`, 'color: green;');
+    } catch (error) {
+      console.error(`%cDEBUG: albumStore.uploadPhotos - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    } finally {
+      set({ isUploading: false });
+    }
+  },
+
+  // Uploader or a host; the function removes both storage objects and the document
+  deletePhoto: async (activityId, photoId) => {
+    try {
+      await deleteActivityPhotoCallable({ activityId, photoId });
+      console.log(`%cDEBUG: albumStore.deletePhoto - Deleted ${photoId} from ${activityId}`, 'color: blue;');
+    } catch (error) {
+      console.error(`%cDEBUG: albumStore.deletePhoto - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+}));
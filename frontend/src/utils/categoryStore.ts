@@ -0,0 +1,125 @@
+import { create } from 'zustand';
+import { firebaseApp } from 'app';
+import {
+  getFirestore,
+  collection,
+  documentId,
+  getDocs,
+  limit,
+  onSnapshot,
+  query,
+  where,
+} from 'firebase/firestore';
+
+// Initialize Firestore
+const db = getFirestore(firebaseApp);
+
+// Id of a categories/{id} document; the value stored in activities/{id}.category
+export type ActivityCategory = string;
+
+// Feed filter value meaning "no category filter"
+export const ALL_CATEGORIES = 'All';
+
+export interface CategoryInfo {
+  id: ActivityCategory;
+  label: string;
+  // lucide icon name, see components/CategoryIcon
+  icon: string;
+  // Hex color used for badges and default cover artwork
+  color: string;
+  order: number;
+  active: boolean;
+}
+
+// Used until the registry loads (and if it's empty); mirrors seedCategoryRegistry in functions
+export const DEFAULT_CATEGORIES: CategoryInfo[] = [
+  { id: 'Sports', label: 'Sports', icon: 'bike', color: '#10b981', order: 0, active: true },
+  { id: 'Dining', label: 'Dining', icon: 'utensils-crossed', color: '#f43f5e', order: 1, active: true },
+  { id: 'Hiking', label: 'Hiking', icon: 'mountain', color: '#65a30d', order: 2, active: true },
+  { id: 'Gaming', label: 'Gaming', icon: 'gamepad-2', color: '#6366f1', order: 3, active: true },
+  { id: 'Movies', label: 'Movies', icon: 'clapperboard', color: '#475569', order: 4, active: true },
+  { id: 'Travel', label: 'Travel', icon: 'plane', color: '#0ea5e9', order: 5, active: true },
+  { id: 'Music', label: 'Music', icon: 'music', color: '#a855f7', order: 6, active: true },
+  { id: 'Cooking', label: 'Cooking', icon: 'chef-hat', color: '#f59e0b', order: 7, active: true },
+  { id: 'Hangout', label: 'Hangout', icon: 'users', color: '#ec4899', order: 8, active: true },
+];
+
+// Retired or unknown categories still render, just without their own styling
+const UNKNOWN_CATEGORY: Omit<CategoryInfo, 'id' | 'label'> = { icon: 'tag', color: '#64748b', order: Number.MAX_SAFE_INTEGER, active: false };
+
+// Tags: same rules as normalizeTag in functions (onActivityTagsWritten re-normalizes)
+export const MAX_TAGS_PER_ACTIVITY = 5;
+const MAX_TAG_LENGTH = 24;
+const TAG_SUGGESTION_LIMIT = 8;
+
+/** "#Board Games " → "board-games" */
+export const normalizeTag = (raw: string) =>
+  raw
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/^#+/, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}-]/gu, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+
+type Unsubscribe = () => void;
+interface CategoryState {
+  // Every category in the registry, sorted by order (retired ones included)
+  categories: CategoryInfo[];
+  initialized: boolean;
+
+  initializeListener: () => Unsubscribe;
+  // Categories offered in pickers and Feed tabs
+  getActiveCategories: () => CategoryInfo[];
+  getCategory: (id: ActivityCategory) => CategoryInfo;
+  suggestTags: (prefix: string) => Promise<string[]>;
+}
+
+export const useCategoryStore = create<CategoryState>((set, get) => ({
+  categories: DEFAULT_CATEGORIES,
+  initialized: false,
+
+  initializeListener: () => {
+    return onSnapshot(collection(db, 'categories'), (snapshot) => {
+      const categories = snapshot.docs
+        .map((d) => ({ ...UNKNOWN_CATEGORY, label: d.id, ...d.data(), id: d.id } as CategoryInfo))
+        .sort((a, b) => a.order - b.order);
+      set({ categories: categories.length > 0 ? categories : DEFAULT_CATEGORIES, initialized: true });
+    }, (error) => {
+      console.error('Error in categories listener:', error);
+      set({ initialized: true });
+    });
+  },
+
+  getActiveCategories: () => get().categories.filter((c) => c.active !== false),
+
+  getCategory: (id) => get().categories.find((c) => c.id === id) ?? { ...UNKNOWN_CATEGORY, id, label: id },
+
+  // Tags already used on activities, by prefix (activityTags ids are normalized tags)
+  suggestTags: async (prefix) => {
+    const normalized = normalizeTag(prefix);
+    if (!normalized) return [];
+    try {
+      const snapshot = await getDocs(
+        query(
+          collection(db, 'activityTags'),
+          where(documentId(), '>=', normalized),
+          where(documentId(), '<', `${normalized}\uf8ff`),
+          limit(TAG_SUGGESTION_LIMIT * 2)
+        )
+      );
+      return snapshot.docs
+        .filter((d) => (d.data().count ?? 0) > 0)
+        .sort((a, b) => (b.data().count ?? 0) - (a.data().count ?? 0))
+        .slice(0, TAG_SUGGESTION_LIMIT)
+        .map((d) => d.id);
+    } catch (error) {
+      console.error('Error loading tag suggestions:', error);
+      return [];
+    }
+  },
+}));
@@ -4,6 +4,8 @@ import { User, getAuth } from 'firebase/auth';
 import { toast } from "sonner";
 import { realtimeDb, firestore } from './firebase'; // Import firestore
 import { doc, updateDoc, Timestamp as FirestoreTimestamp } from 'firebase/firestore'; // Import firestore functions
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
 
 import {
   ref,
@@ -70,10 +72,15 @@ interface ChatState {
   // Message functions
   sendMessage: (activityId: string, user: User, text: string) => Promise<string | null | undefined>; // Adjusted return type
 
+  // Senders can delete their own messages; activity hosts can delete anyone's
+  deleteMessage: (activityId: string, messageId: string) => Promise<void>;
+
   // Cleanup functions
   cleanupExpiredMessages: (activityId: string) => Promise<number>;
 }
 
+const deleteChatMessageCallable = httpsCallable<{ activityId: string; messageId: string }, { status: 'deleted' }>(functions, 'deleteChatMessage');
+
 // Create store
 export const useChatStore = create<ChatState>((set, get) => {
   // Create the store object
@@ -585,6 +592,18 @@ export const useChatStore = create<ChatState>((set, get) => {
     },
 
     // Clean up expired messages (e.g., older than 5 days)
+    deleteMessage: async (activityId: string, messageId: string) => {
+      try {
+        // The server checks the host role before removing the message
+        await deleteChatMessageCallable({ activityId, messageId });
+        console.log(`%cDEBUG: deleteMessage - Removed ${messageId} from ${activityId}`, 'color: orange;');
+      } catch (error) {
+        console.error(`%cDEBUG: deleteMessage ERROR - ${activityId}/${messageId}:`, 'color: red;', error);
+        set({ error: error as Error });
+        throw error;
+      }
+    },
+
     cleanupExpiredMessages: async (activityId: string): Promise<number> => {
       const cleanupStartTime = Date.now();
       try {
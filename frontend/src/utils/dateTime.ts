@@ -0,0 +1,45 @@
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Converts any dateTime shape we have stored over time into a Date:
+ * Firestore Timestamps, plain `{ seconds, nanoseconds }` objects (e.g. from a
+ * cache or JSON round-trip), ISO / datetime-local strings and epoch millis.
+ * @returns The Date, or null if the value can't be parsed
+ */
+export const toDate = (value: unknown): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  if (typeof value === 'object' && typeof (value as { seconds?: unknown }).seconds === 'number') {
+    const { seconds, nanoseconds } = value as { seconds: number; nanoseconds?: number };
+    return new Timestamp(seconds, nanoseconds || 0).toDate();
+  }
+
+  if (typeof value === 'number' || typeof value === 'string') {
+    const date = new Date(typeof value === 'string' && !isNaN(Number(value)) ? Number(value) : value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+};
+
+/**
+ * Canonical representation for Activity.dateTime.
+ * @returns A Firestore Timestamp, or null if the value can't be parsed
+ */
+export const toTimestamp = (value: unknown): Timestamp | null => {
+  if (value instanceof Timestamp) return value;
+  const date = toDate(value);
+  return date ? Timestamp.fromDate(date) : null;
+};
+
+/**
+ * Formats a dateTime for `<input type="datetime-local">` in the user's time zone.
+ */
+export const toDateTimeLocalValue = (value: unknown): string => {
+  const date = toDate(value);
+  return date ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+};
@@ -0,0 +1,128 @@
+import { create } from 'zustand';
+import { firebaseApp } from 'app';
+import {
+  getFirestore,
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  onSnapshot,
+  query,
+  orderBy,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { CoverImage } from './fileStorage';
+import { RecurrenceFrequency } from './recurrence';
+
+// Initialize Firestore
+const db = getFirestore(firebaseApp);
+
+// Create form state as typed so far; nothing is validated until publishing
+export interface ActivityDraftFields {
+  title: string;
+  description: string;
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  // datetime-local value ("yyyy-MM-ddTHH:mm"), may be empty
+  dateTime: string;
+  category: string;
+  maxParticipants: string | number;
+  isPublic: boolean;
+  unlisted: boolean;
+  requiresApproval: boolean;
+  repeat: 'none' | RecurrenceFrequency;
+  repeatEnd: 'count' | 'until';
+  repeatCount: string | number;
+  repeatUntil: string;
+  // Date poll (missing on drafts saved before polls existed)
+  scheduling?: boolean;
+  pollOptions?: string[];
+  tags: string[];
+  // Picked files aren't uploaded until publishing, so only existing covers are kept
+  coverImage: CoverImage | null;
+  coverPreset: string | null;
+  inviteeIds: string[];
+}
+
+// userProfiles/{userId}/activityDrafts/{draftId}; kept out of `activities`
+// so the Feed and MyActivities listeners never see unpublished work
+export interface ActivityDraft extends ActivityDraftFields {
+  id: string;
+  updatedAt: Timestamp | null;
+}
+
+const draftsCollection = (userId: string) => collection(db, 'userProfiles', userId, 'activityDrafts');
+
+type Unsubscribe = () => void;
+interface DraftState {
+  // Current user's drafts, most recently edited first
+  drafts: ActivityDraft[];
+  isLoading: boolean;
+  error: Error | null;
+
+  subscribeToDrafts: (userId: string) => Unsubscribe;
+  newDraftId: (userId: string) => string;
+  getDraft: (userId: string, draftId: string) => Promise<ActivityDraft | null>;
+  saveDraft: (userId: string, draftId: string, fields: ActivityDraftFields) => Promise<void>;
+  deleteDraft: (userId: string, draftId: string) => Promise<void>;
+}
+
+export const useDraftStore = create<DraftState>((set) => ({
+  drafts: [],
+  isLoading: false,
+  error: null,
+
+  subscribeToDrafts: (userId: string) => {
+    set({ isLoading: true });
+    const draftsQuery = query(draftsCollection(userId), orderBy('updatedAt', 'desc'));
+    return onSnapshot(draftsQuery, (snapshot) => {
+      set({
+        drafts: snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as ActivityDraft)),
+        isLoading: false,
+      });
+    }, (error) => {
+      console.error('Error in drafts listener:', error);
+      set({ error: error as Error, isLoading: false });
+    });
+  },
+
+  // Ids are picked client-side so every autosave after the first is an overwrite
+  newDraftId: (userId) => doc(draftsCollection(userId)).id,
+
+  getDraft: async (userId, draftId) => {
+    try {
+      const snap = await getDoc(doc(db, 'userProfiles', userId, 'activityDrafts', draftId));
+      return snap.exists() ? ({ id: snap.id, ...snap.data() } as ActivityDraft) : null;
+    } catch (error) {
+      console.error(`%cDEBUG: draftStore.getDraft - Error for ${draftId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  saveDraft: async (userId, draftId, fields) => {
+    try {
+      await setDoc(doc(db, 'userProfiles', userId, 'activityDrafts', draftId), {
+        ...fields,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error(`%cDEBUG: draftStore.saveDraft - Error for ${draftId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  deleteDraft: async (userId, draftId) => {
+    try {
+      await deleteDoc(doc(db, 'userProfiles', userId, 'activityDrafts', draftId));
+    } catch (error) {
+      console.error(`%cDEBUG: draftStore.deleteDraft - Error for ${draftId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+}));
@@ -1,16 +1,17 @@
 import { firebaseApp } from 'app';
 import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { resizeImage } from './imageUtils';
 
 // Initialize Firebase Storage
 const storage = getStorage(firebaseApp);
 
 /**
  * Uploads a file to Firebase Storage
- * @param file The file to upload
+ * @param file The file (or resized blob) to upload
  * @param path The path to upload the file to (including filename)
  * @returns The download URL of the uploaded file
  */
-export const uploadFile = async (file: File, path: string): Promise<string> => {
+export const uploadFile = async (file: Blob, path: string): Promise<string> => {
   try {
     // Create a reference to the file location
     const storageRef = ref(storage, path);
@@ -45,3 +46,66 @@ export const uploadProfilePicture = async (userId: string, file: File): Promise<
   
   return uploadFile(file, path);
 };
+
+// Album photos are stored at two sizes; the original file is never uploaded
+const ALBUM_PHOTO_MAX_SIZE = 1600;
+const ALBUM_THUMB_MAX_SIZE = 320;
+
+export interface UploadedAlbumPhoto {
+  photoId: string;
+  url: string;
+  thumbUrl: string;
+  path: string;
+  thumbPath: string;
+}
+
+/**
+ * Uploads an activity album photo as a display-size image plus a thumbnail.
+ * Both are re-encoded by resizeImage, which strips EXIF data.
+ * @param activityId The activity the album belongs to
+ * @param file The image picked by the user
+ * @returns Download URLs and storage paths of both sizes
+ */
+export const uploadActivityPhoto = async (activityId: string, file: File): Promise<UploadedAlbumPhoto> => {
+  const photoId = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  const path = `activity_photos/${activityId}/${photoId}.jpg`;
+  const thumbPath = `activity_photos/${activityId}/${photoId}_thumb.jpg`;
+
+  const [photo, thumb] = await Promise.all([
+    resizeImage(file, ALBUM_PHOTO_MAX_SIZE, { quality: 0.85, allowUpscale: false }),
+    resizeImage(file, ALBUM_THUMB_MAX_SIZE, { quality: 0.7, allowUpscale: false }),
+  ]);
+  const [url, thumbUrl] = await Promise.all([uploadFile(photo, path), uploadFile(thumb, thumbPath)]);
+
+  return { photoId, url, thumbUrl, path, thumbPath };
+};
+
+// Cover widths for srcSet; the card uses small, the details header medium/large
+const COVER_WIDTHS = { small: 480, medium: 960, large: 1600 } as const;
+
+export interface CoverImage {
+  small: string;
+  medium: string;
+  large: string;
+  // Storage folder holding the three sizes
+  path: string;
+}
+
+/**
+ * Uploads an activity cover in three responsive sizes (EXIF stripped by resizeImage).
+ * @param folder Storage folder under activity_covers/, e.g. the activity or series id
+ * @param file The image picked by the host
+ * @returns Download URLs of every size
+ */
+export const uploadActivityCover = async (folder: string, file: File): Promise<CoverImage> => {
+  // A fresh sub-folder per upload so replaced covers never hit stale CDN caches
+  const path = `activity_covers/${folder}/${Date.now()}`;
+  const sizes = Object.entries(COVER_WIDTHS) as [keyof typeof COVER_WIDTHS, number][];
+  const urls = await Promise.all(
+    sizes.map(async ([size, width]) => {
+      const blob = await resizeImage(file, width, { quality: 0.8, allowUpscale: false });
+      return uploadFile(blob, `${path}/${size}.jpg`);
+    })
+  );
+  return { small: urls[0], medium: urls[1], large: urls[2], path };
+};
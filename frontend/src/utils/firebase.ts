@@ -5,6 +5,7 @@ import { getFirestore, Firestore } from 'firebase/firestore';
 import { getDatabase, Database } from 'firebase/database';
 import { getStorage, FirebaseStorage } from 'firebase/storage';
 import { getMessaging, Messaging } from 'firebase/messaging';
+import { getFunctions, Functions } from 'firebase/functions';
 // ← Add Messaging imports
 
 
@@ -58,12 +59,16 @@ const initializeFirebase = () => {
     const messaging: Messaging = getMessaging(app);
     console.log('%c✅ Messaging initialized', 'color: #4CAF50;');
 
+    // Initialize Cloud Functions (callables live in the default region)
+    const functions: Functions = getFunctions(app);
+    console.log('%c✅ Functions initialized', 'color: #4CAF50; font-weight: bold;');
+
     console.log(
       '%c🔥 ALL FIREBASE SERVICES INITIALIZED SUCCESSFULLY',
       'background: #4CAF50; color: white; font-weight: bold; padding: 2px 5px; border-radius: 3px;'
     );
 
-    return { app, auth, firestore, realtimeDb, storage, messaging };
+    return { app, auth, firestore, realtimeDb, storage, messaging, functions };
   } catch (error) {
     console.error(
       '%c❌ FIREBASE INITIALIZATION ERROR:',
@@ -84,6 +89,7 @@ export const firestore = firebase.firestore;
 export const realtimeDb = firebase.realtimeDb;
 export const storage = firebase.storage;
 export const messaging = firebase.messaging;
+export const functions = firebase.functions;
 
 // Export the config for reference if needed
 export const config = firebaseConfig;
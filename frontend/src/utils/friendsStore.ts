@@ -12,13 +12,19 @@ import {
   arrayUnion,
   arrayRemove,
   Timestamp,
-  addDoc
+  addDoc,
+  getDocs,
+  limit
 } from 'firebase/firestore';
 import { User } from 'firebase/auth';
+import { UserProfile } from './userProfileStore';
+import { searchTokens, primaryToken, scoreMatch } from './search';
 
 // Initialize Firestore
 const db = getFirestore(firebaseApp);
 
+const USER_SEARCH_LIMIT = 30;
+
 // Friend request status types
 export enum FriendRequestStatus {
   PENDING = 'pending',
@@ -54,6 +60,9 @@ interface FriendsState {
   acceptFriendRequest: (requestId: string) => Promise<void>;
   rejectFriendRequest: (requestId: string) => Promise<void>;
   removeFriend: (currentUserId: string, friendId: string) => Promise<void>;
+
+  // Indexed search over userProfiles.searchKeywords (name prefixes, exact email)
+  searchUsers: (searchQuery: string) => Promise<UserProfile[]>;
   
   // Helper methods
   isFriend: (userId: string) => boolean;
@@ -183,6 +192,39 @@ export const useFriendsStore = create<FriendsState>((set, get) => ({
     }
   },
   
+  // Search users by name prefix or exact email, best matches first
+  searchUsers: async (searchQuery) => {
+    try {
+      const normalized = searchQuery.trim().toLowerCase();
+      const isEmail = normalized.includes('@');
+      const tokens = isEmail ? [normalized] : searchTokens(normalized);
+      const token = primaryToken(tokens);
+      if (!token) return [];
+
+      const snapshot = await getDocs(query(
+        collection(db, 'userProfiles'),
+        where('searchKeywords', 'array-contains', token),
+        limit(USER_SEARCH_LIMIT)
+      ));
+
+      return snapshot.docs
+        .map((d) => {
+          const data = d.data();
+          const score = isEmail
+            ? 1
+            : scoreMatch(tokens, data.searchKeywords || [], [{ text: data.displayName, weight: 1 }]);
+          return { profile: data as UserProfile, score };
+        })
+        .filter((r): r is { profile: UserProfile; score: number } => r.score !== null)
+        .sort((a, b) => b.score - a.score)
+        .map((r) => r.profile);
+    } catch (error) {
+      console.error('Error searching users:', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
   // Helpers
   isFriend: (userId) => get().friends.includes(userId),
   hasPendingRequestFrom: (userId) =>
@@ -0,0 +1,116 @@
+import { Activity } from './activityStore';
+
+// Activities have no end time; calendars get a default block of this length
+export const DEFAULT_EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// Mirrors the organizer address used by the calendarFeed function
+const ORGANIZER_ADDRESS = 'noreply@meetudatabutton.firebaseapp.com';
+
+// Text values must escape backslashes, separators and newlines (RFC 5545 §3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 20250412T180000Z
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+const foldLine = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = new TextEncoder().encode(char).length;
+    const max = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > max) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Builds the VEVENT lines for one activity, including 1 day / 1 hour reminders.
+ * A cancelled activity is sent as a cancellation (higher SEQUENCE, no reminders),
+ * so importing it updates the event added earlier instead of keeping it confirmed.
+ */
+export const buildActivityEvent = (activity: Activity, url: string): string[] => {
+  const cancelled = activity.status === 'cancelled';
+  const start = activity.dateTime.toDate();
+  const end = new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS);
+  const hasCoordinates = activity.latitude !== 0 || activity.longitude !== 0;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${activity.id}@meetu`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(activity.title)}`,
+    `DESCRIPTION:${escapeText(`${activity.description}\n\n${url}`)}`,
+    `LOCATION:${escapeText(activity.location)}`,
+    ...(hasCoordinates ? [`GEO:${activity.latitude.toFixed(6)};${activity.longitude.toFixed(6)}`] : []),
+    `ORGANIZER;CN="${activity.createdBy.displayName.replace(/"/g, "'")}":mailto:${ORGANIZER_ADDRESS}`,
+    `URL:${url}`,
+    `CATEGORIES:${escapeText(activity.category)}`,
+    `SEQUENCE:${cancelled ? 1 : 0}`,
+    cancelled ? 'STATUS:CANCELLED' : 'STATUS:CONFIRMED',
+    ...(cancelled ? [] : [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-P1D',
+      `DESCRIPTION:${escapeText(`${activity.title} is tomorrow`)}`,
+      'END:VALARM',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT1H',
+      `DESCRIPTION:${escapeText(`${activity.title} starts in 1 hour`)}`,
+      'END:VALARM',
+    ]),
+    'END:VEVENT',
+  ];
+};
+
+/**
+ * Wraps events in a VCALENDAR and joins them with CRLF line endings.
+ */
+export const buildCalendar = (eventLines: string[]): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Meetu//Activities//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...eventLines,
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n') + '\r\n';
+
+/**
+ * Downloads a single-activity .ics file ("Add to calendar").
+ */
+export const downloadActivityIcs = (activity: Activity) => {
+  const url = `${window.location.origin}/activity-details?id=${activity.id}`;
+  const ics = buildCalendar(buildActivityEvent(activity, url));
+
+  const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${activity.title.replace(/[^\w\- ]+/g, '').trim() || 'activity'}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
@@ -1,5 +1,20 @@
 // utils/imageUtils.ts
-export async function resizeImage(file: File, maxSize = 128): Promise<Blob> {
+
+export interface ResizeOptions {
+  // JPEG quality: 0 = worst, 1 = best
+  quality?: number;
+  // Avatars are scaled up to maxSize; album photos shouldn't be
+  allowUpscale?: boolean;
+}
+
+/**
+ * Scales an image to fit maxSize × maxSize and re-encodes it as JPEG.
+ * Drawing through a canvas keeps only the pixels, so EXIF metadata (GPS
+ * position, camera details) never leaves the device. Browsers apply the EXIF
+ * orientation when decoding, so the result is already upright.
+ */
+export async function resizeImage(file: File, maxSize = 128, options: ResizeOptions = {}): Promise<Blob> {
+  const { quality = 0.6, allowUpscale = true } = options;
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     const img = new Image();
@@ -10,9 +25,10 @@ export async function resizeImage(file: File, maxSize = 128): Promise<Blob> {
       img.onload = () => {
         const canvas = document.createElement("canvas");
 
-        const scale = Math.min(maxSize / img.width, maxSize / img.height);
-        const width = img.width * scale;
-        const height = img.height * scale;
+        const fit = Math.min(maxSize / img.width, maxSize / img.height);
+        const scale = allowUpscale ? fit : Math.min(1, fit);
+        const width = Math.round(img.width * scale);
+        const height = Math.round(img.height * scale);
 
         canvas.width = width;
         canvas.height = height;
@@ -31,7 +47,7 @@ export async function resizeImage(file: File, maxSize = 128): Promise<Blob> {
             }
           },
           "image/jpeg", // or 'image/webp' for better compression
-          0.6 // Quality setting: 0 = worst, 1 = best
+          quality
         );
       };
 
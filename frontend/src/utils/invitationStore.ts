@@ -0,0 +1,102 @@
+import { create } from 'zustand';
+import { firebaseApp } from 'app';
+import {
+  getFirestore,
+  collection,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  Timestamp,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+
+// Initialize Firestore
+const db = getFirestore(firebaseApp);
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined';
+
+// invitations/{activityId}_{inviteeId}, written by the inviteToActivity function
+export interface Invitation {
+  id: string;
+  activityId: string;
+  activityTitle: string;
+  activityDateTime: Timestamp | null;
+  inviterId: string;
+  inviterName: string;
+  inviteeId: string;
+  status: InvitationStatus;
+  createdAt: Timestamp;
+  respondedAt: Timestamp | null;
+}
+
+const inviteToActivityCallable = httpsCallable<{ activityId: string; inviteeIds: string[] }, { invited: number }>(functions, 'inviteToActivity');
+const respondToInvitationCallable = httpsCallable<{ invitationId: string; accept: boolean }, { status: InvitationStatus; joinStatus: string | null }>(functions, 'respondToInvitation');
+
+type Unsubscribe = () => void;
+interface InvitationState {
+  // Pending invitations for the signed-in user, newest first
+  invitations: Invitation[];
+  isLoading: boolean;
+  error: Error | null;
+
+  initializeListener: (userId: string) => Unsubscribe;
+  inviteFriends: (activityId: string, friendIds: string[]) => Promise<number>;
+  respondToInvitation: (invitationId: string, accept: boolean) => Promise<string | null>;
+  getInvitationFor: (activityId: string) => Invitation | undefined;
+}
+
+export const useInvitationStore = create<InvitationState>((set, get) => ({
+  invitations: [],
+  isLoading: false,
+  error: null,
+
+  initializeListener: (userId: string) => {
+    set({ isLoading: true });
+    const pendingQuery = query(
+      collection(db, 'invitations'),
+      where('inviteeId', '==', userId),
+      where('status', '==', 'pending'),
+      orderBy('createdAt', 'desc')
+    );
+    return onSnapshot(pendingQuery, (snapshot) => {
+      set({
+        invitations: snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Invitation)),
+        isLoading: false,
+      });
+    }, (error) => {
+      console.error('Error in invitations listener:', error);
+      set({ error: error as Error, isLoading: false });
+    });
+  },
+
+  // Hosts only; the server skips non-friends, participants and open invitations
+  inviteFriends: async (activityId, friendIds) => {
+    if (friendIds.length === 0) return 0;
+    try {
+      const { data } = await inviteToActivityCallable({ activityId, inviteeIds: friendIds });
+      console.log(`%cDEBUG: invitationStore.inviteFriends - ${data.invited} invited to ${activityId}`, 'color: blue;');
+      return data.invited;
+    } catch (error) {
+      console.error(`%cDEBUG: invitationStore.inviteFriends - Error for ${activityId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // Returns the join status ('joined' | 'waitlisted') when accepting
+  respondToInvitation: async (invitationId, accept) => {
+    try {
+      const { data } = await respondToInvitationCallable({ invitationId, accept });
+      console.log(`%cDEBUG: invitationStore.respondToInvitation - ${invitationId}: ${data.status}`, 'color: blue;');
+      return data.joinStatus;
+    } catch (error) {
+      console.error(`%cDEBUG: invitationStore.respondToInvitation - Error for ${invitationId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  getInvitationFor: (activityId) => get().invitations.find((inv) => inv.activityId === activityId),
+}));
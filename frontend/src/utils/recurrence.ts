@@ -0,0 +1,35 @@
+import { addMonths, addWeeks } from 'date-fns';
+
+export type RecurrenceFrequency = 'weekly' | 'monthly';
+
+/**
+ * Recurrence rule for an activity series.
+ * Exactly one of `count` or `until` ends the series.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  count?: number;
+  until?: Date;
+}
+
+// Hard cap so an open-ended "until" can't generate years of occurrences
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/**
+ * Expands a rule into concrete occurrence dates, starting with `start`.
+ * Dates are computed in the browser's local time zone, so "every Sunday 10:00"
+ * stays at 10:00 across daylight-saving changes.
+ */
+export const buildOccurrenceDates = (start: Date, rule: RecurrenceRule): Date[] => {
+  const dates: Date[] = [];
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  for (let i = 0; i < limit; i++) {
+    // Always step from the start date so monthly series don't drift (Jan 31 → Feb 28 → Mar 28)
+    const next = rule.frequency === 'weekly' ? addWeeks(start, i) : addMonths(start, i);
+    if (rule.until && next.getTime() > rule.until.getTime()) break;
+    dates.push(next);
+  }
+
+  return dates;
+};
@@ -0,0 +1,50 @@
+// Must normalize exactly like buildSearchKeywords in functions/src/index.ts
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_LENGTH = 20;
+
+/**
+ * Splits a search query into normalized words (lowercase, no accents),
+ * truncated to the longest prefix stored in `searchKeywords`.
+ */
+export const searchTokens = (text: string): string[] =>
+  Array.from(
+    new Set(
+      text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((w) => w.length >= MIN_PREFIX_LENGTH)
+        .map((w) => w.slice(0, MAX_PREFIX_LENGTH))
+    )
+  );
+
+/**
+ * Picks the token to use in the single `array-contains` clause Firestore
+ * allows; the longest word is the most selective.
+ */
+export const primaryToken = (tokens: string[]): string | undefined =>
+  [...tokens].sort((a, b) => b.length - a.length)[0];
+
+/**
+ * Scores a document for the given tokens, or returns null if a token is missing.
+ * Each field is weighted; matching a whole word scores higher than a prefix.
+ */
+export const scoreMatch = (
+  tokens: string[],
+  keywords: string[],
+  fields: { text: string | undefined | null; weight: number }[]
+): number | null => {
+  const keywordSet = new Set(keywords);
+  if (!tokens.every((t) => keywordSet.has(t))) return null;
+
+  let score = 0;
+  for (const { text, weight } of fields) {
+    const words = searchTokens(text ?? '');
+    for (const token of tokens) {
+      if (words.includes(token)) score += weight * 2;
+      else if (words.some((w) => w.startsWith(token))) score += weight;
+    }
+  }
+  return score;
+};
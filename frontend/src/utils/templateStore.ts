@@ -0,0 +1,119 @@
+import { create } from 'zustand';
+import { firebaseApp } from 'app';
+import {
+  getFirestore,
+  collection,
+  doc,
+  addDoc,
+  deleteDoc,
+  onSnapshot,
+  query,
+  orderBy,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { Activity, cleanTags } from './activityStore';
+import { CoverImage } from './fileStorage';
+
+// Initialize Firestore
+const db = getFirestore(firebaseApp);
+
+// Everything the Create form needs except the date
+export interface ActivityTemplateFields {
+  title: string;
+  description: string;
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  category: string;
+  tags: string[];
+  maxParticipants: number | null;
+  isPublic: boolean;
+  unlisted: boolean;
+  requiresApproval: boolean;
+  coverImage: CoverImage | null;
+  coverPreset: string | null;
+}
+
+// userProfiles/{userId}/activityTemplates/{templateId}
+export interface ActivityTemplate extends ActivityTemplateFields {
+  id: string;
+  name: string;
+  createdAt: Timestamp | null;
+}
+
+/** The reusable part of an activity, shared by "Save as template" and "Duplicate" */
+export const templateFromActivity = (activity: Activity): ActivityTemplateFields => ({
+  title: activity.title,
+  description: activity.description,
+  location: activity.location,
+  latitude: activity.latitude ?? null,
+  longitude: activity.longitude ?? null,
+  category: activity.category,
+  tags: cleanTags(activity.tags),
+  maxParticipants: activity.maxParticipants ?? null,
+  isPublic: activity.isPublic !== false,
+  unlisted: activity.unlisted === true,
+  requiresApproval: activity.requiresApproval === true,
+  coverImage: activity.coverImage ?? null,
+  coverPreset: activity.coverPreset ?? null,
+});
+
+const templatesCollection = (userId: string) => collection(db, 'userProfiles', userId, 'activityTemplates');
+
+type Unsubscribe = () => void;
+interface TemplateState {
+  // Current user's templates, newest first
+  templates: ActivityTemplate[];
+  isLoading: boolean;
+  error: Error | null;
+
+  subscribeToTemplates: (userId: string) => Unsubscribe;
+  saveTemplate: (userId: string, name: string, fields: ActivityTemplateFields) => Promise<string>;
+  deleteTemplate: (userId: string, templateId: string) => Promise<void>;
+}
+
+export const useTemplateStore = create<TemplateState>((set) => ({
+  templates: [],
+  isLoading: false,
+  error: null,
+
+  subscribeToTemplates: (userId: string) => {
+    set({ isLoading: true });
+    const templatesQuery = query(templatesCollection(userId), orderBy('createdAt', 'desc'));
+    return onSnapshot(templatesQuery, (snapshot) => {
+      set({
+        templates: snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as ActivityTemplate)),
+        isLoading: false,
+      });
+    }, (error) => {
+      console.error('Error in templates listener:', error);
+      set({ error: error as Error, isLoading: false });
+    });
+  },
+
+  saveTemplate: async (userId, name, fields) => {
+    try {
+      const ref = await addDoc(templatesCollection(userId), {
+        ...fields,
+        name: name.trim() || fields.title,
+        createdAt: serverTimestamp(),
+      });
+      return ref.id;
+    } catch (error) {
+      console.error('%cDEBUG: templateStore.saveTemplate - Error:', 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  deleteTemplate: async (userId, templateId) => {
+    try {
+      await deleteDoc(doc(db, 'userProfiles', userId, 'activityTemplates', templateId));
+    } catch (error) {
+      console.error(`%cDEBUG: templateStore.deleteTemplate - Error for ${templateId}:`, 'color: red;', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+}));
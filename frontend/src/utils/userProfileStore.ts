@@ -2,10 +2,25 @@ import { create } from 'zustand';
 import { firebaseApp } from 'app';
 import { getFirestore, doc, setDoc, getDoc, onSnapshot,updateDoc } from 'firebase/firestore';
 import { User } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
 
 // Initialize Firestore
 const db = getFirestore(firebaseApp);
 
+// Secret iCal subscription URL (see calendarFeed in functions)
+export interface CalendarFeedUrls {
+  url: string;
+  webcalUrl: string;
+}
+const getCalendarFeedUrlCallable = httpsCallable<{ regenerate?: boolean }, CalendarFeedUrls>(functions, 'getCalendarFeedUrl');
+
+// Push reminders sent by sendActivityReminders; a missing key means on
+export interface ReminderSettings {
+  dayBefore?: boolean;
+  hourBefore?: boolean;
+}
+
 // Define user profile interface
 export interface UserProfile {
   userId: string;
@@ -19,6 +34,21 @@ export interface UserProfile {
   interests?: string[];
   friends?: string[];
   verified?: boolean;
+  // Maintained by the finalizeAttendance function; shown to hosts on join requests
+  attendedCount?: number;
+  noShowCount?: number;
+  // Star totals from reviews of activities this user organized (onReviewWritten)
+  hostRatingSum?: number;
+  hostRatingCount?: number;
+  reminderSettings?: ReminderSettings;
+  // IANA zone from the browser, so server-sent reminders show local times
+  timeZone?: string;
+}
+
+// Host rating as shown next to an organizer's name
+export interface HostRating {
+  average: number;
+  count: number;
 }
 
 // Define store state
@@ -32,6 +62,10 @@ interface UserProfileState {
   initializeListener: (user: User) => () => void;
   updateProfile: (data: Partial<Omit<UserProfile, 'userId'>>) => Promise<void>;
   getProfile: () => UserProfile | null;
+  getCalendarFeedUrl: (regenerate?: boolean) => Promise<CalendarFeedUrls>;
+  // Other users' host ratings, fetched once per session (null = not rated yet)
+  hostRatings: Record<string, HostRating | null>;
+  loadHostRating: (userId: string) => Promise<void>;
 }
 
 // Create store
@@ -40,6 +74,7 @@ export const useUserProfileStore = create<UserProfileState>((set, get) => ({
   isLoading: false,
   error: null,
   initialized: false,
+  hostRatings: {},
   
   // Initialize listener for real-time updates
   initializeListener: (user: User) => {
@@ -59,6 +94,7 @@ export const useUserProfileStore = create<UserProfileState>((set, get) => ({
             photoURL: user.photoURL,
             createdAt: Date.now(),
             lastLoginAt: Date.now(),
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             friends: [],
             verified: false,
           };
@@ -73,11 +109,12 @@ export const useUserProfileStore = create<UserProfileState>((set, get) => ({
             // Log data merge for verification
             await setDoc(userDocRef, { 
               displayName: user.displayName,
-              lastLoginAt: Date.now() 
+              lastLoginAt: Date.now(),
+              timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             }, { merge: true });
             console.log('Profile displayName updated:', user.displayName);
           } else {
-            await setDoc(userDocRef, { lastLoginAt: Date.now() }, { merge: true });
+            await setDoc(userDocRef, { lastLoginAt: Date.now(), timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }, { merge: true });
             console.log('Profile lastLoginAt updated:', Date.now());
           }
         }
@@ -152,5 +189,32 @@ export const useUserProfileStore = create<UserProfileState>((set, get) => ({
   // Get current profile
   getProfile: () => {
     return get().profile;
+  },
+
+  // Get (or rotate, which revokes old subscriptions) the personal calendar feed URL
+  getCalendarFeedUrl: async (regenerate = false) => {
+    try {
+      const { data } = await getCalendarFeedUrlCallable({ regenerate });
+      return data;
+    } catch (error) {
+      console.error('Error getting calendar feed URL:', error);
+      set({ error: error as Error });
+      throw error;
+    }
+  },
+
+  // Activity cards render in long lists, so each organizer's profile is read at most once
+  loadHostRating: async (userId) => {
+    if (userId in get().hostRatings) return;
+    set((state) => ({ hostRatings: { ...state.hostRatings, [userId]: null } }));
+    try {
+      const snap = await getDoc(doc(db, 'userProfiles', userId));
+      const { hostRatingSum = 0, hostRatingCount = 0 } = (snap.data() ?? {}) as UserProfile;
+      if (hostRatingCount > 0) {
+        set((state) => ({ hostRatings: { ...state.hostRatings, [userId]: { average: hostRatingSum / hostRatingCount, count: hostRatingCount } } }));
+      }
+    } catch (error) {
+      console.error('Error loading host rating:', error);
+    }
   }
 }));
@@ -1,15 +1,22 @@
 // ── index.ts (or index.js) ──
 
 // 1) Firestore triggers
-import { onDocumentUpdated, onDocumentCreated, onDocumentDeleted } from "firebase-functions/v2/firestore";
+import { onDocumentUpdated, onDocumentUpdatedWithAuthContext, onDocumentCreated, onDocumentDeleted, onDocumentWritten } from "firebase-functions/v2/firestore";
 import * as logger from "firebase-functions/logger";
 
 // 3) Scheduled triggers
 import { onSchedule } from "firebase-functions/v2/scheduler";
 
+// 3a) Callable functions
+import { onCall, onRequest, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { randomBytes, createHash, createHmac, timingSafeEqual } from "crypto";
+import { defineSecret, defineString } from "firebase-functions/params";
+
 // 4) Firebase-Admin imports
 import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
 import { getDatabase } from "firebase-admin/database";
+import { getStorage } from "firebase-admin/storage";
+import { geohashForLocation } from "geofire-common";
 // import { initializeApp } from 'firebase-admin/app';
 
 // 1) Import the v2 “onValueCreated” trigger, plus Firestore + RTDB Admin SDKs
@@ -82,76 +89,95 @@ export const sendChatNotification = onValueCreated(
       return;
     }
 
-    // 2) Gather FCM tokens for each recipient
-    const tokens: string[] = [];
-    await Promise.all(
-      recipientUids.map(async (uid) => {
-        try {
-          const userDoc = await db.collection("userProfiles").doc(uid).get();
-          if (!userDoc.exists) return;
-          const userData = userDoc.data()!;
-          const fcmToken    = userData.fcmToken as string | undefined;
-          const webFcmToken = userData.webFcmToken as string | undefined;
-          if (fcmToken) tokens.push(fcmToken);
-          if (webFcmToken) tokens.push(webFcmToken);
-        } catch (err) {
-          console.error(`❌ error fetching userProfiles/${uid}:`, err);
-        }
-      })
+    // 2) Send the notification to every recipient's registered devices
+    await sendPushToUsers(
+      recipientUids,
+      { title: senderName, body: truncatedText },
+      { activityId: activityId }
     );
-    if (tokens.length === 0) {
-      console.log("ℹ️ No tokens found; exiting.");
-      return;
-    }
+  }
+);
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── sendPushToUsers: shared FCM path used by every notification we send
+//
+// Looks up fcmToken / webFcmToken on each userProfiles/{uid} document and
+// sends one message per token. Failures are logged, never thrown.
+// ────────────────────────────────────────────────────────────────────────────
+async function getFcmTokens(uids: string[]): Promise<string[]> {
+  const tokens: string[] = [];
+  await Promise.all(
+    uids.map(async (uid) => {
+      try {
+        const userDoc = await db.collection("userProfiles").doc(uid).get();
+        if (!userDoc.exists) return;
+        const userData = userDoc.data()!;
+        const fcmToken    = userData.fcmToken as string | undefined;
+        const webFcmToken = userData.webFcmToken as string | undefined;
+        if (fcmToken) tokens.push(fcmToken);
+        if (webFcmToken) tokens.push(webFcmToken);
+      } catch (err) {
+        console.error(`❌ error fetching userProfiles/${uid}:`, err);
+      }
+    })
+  );
+  return tokens;
+}
+
+async function sendPushToUsers(
+  uids: string[],
+  notification: { title: string; body: string },
+  data: Record<string, string>
+) {
+  const tokens = await getFcmTokens(uids);
+  if (tokens.length === 0) {
+    console.log("ℹ️ No tokens found; exiting.");
+    return;
+  }
 
-    // 3) Optional: compute a dynamic badge count
-    // For simplicity, we’ll just send badge=1. If you want to show “total unread”:
-    // you could query Firestore for unread‐count and set badgeCount accordingly.
-    const badgeCount = 1;
-
-    // 4) Build and send the notification to each token
-    const sendPromises = tokens.map((token) => {
-      const message: admin.messaging.Message = {
-        token: token,
-        notification: {
-          title: senderName,
-          body:  truncatedText,
-        },
-        data: {
-          activityId: activityId,
-        },
-        android: {
-          notification: { sound: "default" }
-        },
-        apns: {
-          payload: {
-            aps: {
-              sound: "default",
-              badge: badgeCount,
-            }
+  // Optional: compute a dynamic badge count
+  // For simplicity, we’ll just send badge=1. If you want to show “total unread”:
+  // you could query Firestore for unread‐count and set badgeCount accordingly.
+  const badgeCount = 1;
+
+  // Build and send the notification to each token
+  const sendPromises = tokens.map((token) => {
+    const message: admin.messaging.Message = {
+      token: token,
+      notification,
+      data,
+      android: {
+        notification: { sound: "default" }
+      },
+      apns: {
+        payload: {
+          aps: {
+            sound: "default",
+            badge: badgeCount,
           }
         }
-      };
-      return admin.messaging().send(message);
-    });
+      }
+    };
+    return admin.messaging().send(message);
+  });
 
-    try {
-      const results = await Promise.allSettled(sendPromises);
-      const successCount = results.filter((r) => r.status === "fulfilled").length;
-      const failureCount = results.length - successCount;
-      console.log(
-        `✅ send() done. Success: ${successCount}, Failures: ${failureCount}`
-      );
-      results.forEach((r, idx) => {
-        if (r.status === "rejected") {
-          console.warn(`❌ Token[${idx}] failed:`, (r as PromiseRejectedResult).reason);
-        }
-      });
-    } catch (err) {
-      console.error("❌ Unexpected error during send():", err);
-    }
+  try {
+    const results = await Promise.allSettled(sendPromises);
+    const successCount = results.filter((r) => r.status === "fulfilled").length;
+    const failureCount = results.length - successCount;
+    console.log(
+      `✅ send() done. Success: ${successCount}, Failures: ${failureCount}`
+    );
+    results.forEach((r, idx) => {
+      if (r.status === "rejected") {
+        console.warn(`❌ Token[${idx}] failed:`, (r as PromiseRejectedResult).reason);
+      }
+    });
+  } catch (err) {
+    console.error("❌ Unexpected error during send():", err);
   }
-);
+}
+
 // ────────────────────────────────────────────────────────────────────────────
 // ── 2) onUserCreatedOrUpdated: lowercases displayName whenever a user document is updated
 // ────────────────────────────────────────────────────────────────────────────
@@ -177,6 +203,13 @@ export const onUserCreatedOrUpdated = onDocumentUpdated("userProfiles/{userId}",
 
     console.log(`Updated displayName_lowercase for user ${event.params.userId}`);
   }
+
+  // Keyword index for searchUsers; also backfills profiles that predate it
+  const searchKeywords = userSearchKeywords(after);
+  if (!sameKeywords(after.searchKeywords, searchKeywords)) {
+    await db.doc(`userProfiles/${event.params.userId}`).update({ searchKeywords });
+    console.log(`Updated searchKeywords for user ${event.params.userId}`);
+  }
 });
 
 export const onUserCreated = onDocumentCreated("userProfiles/{userId}", async (event) => {
@@ -190,6 +223,7 @@ export const onUserCreated = onDocumentCreated("userProfiles/{userId}", async (e
 
   await db.doc(`userProfiles/${event.params.userId}`).update({
     displayName_lowercase: displayNameLower,
+    searchKeywords: userSearchKeywords(data),
   });
 
   console.log(`Created displayName_lowercase for user ${event.params.userId}`);
@@ -263,10 +297,13 @@ export const onActivityCreated = onDocumentCreated("activities/{activityId}", as
   }
 
   // 4) **CRITICAL**: set lastMessageTimestamp on your Firestore doc
+  const geohash = activityGeohash(activity);
   await db.doc(`activities/${activityId}`).update({
     lastMessageTimestamp: tsFire,
     title_lowercase: (activity.title || "").toLowerCase(),
     archived: false,
+    searchKeywords: activitySearchKeywords(activity),
+    ...(geohash && { geohash }),
   });
 });
 
@@ -326,12 +363,18 @@ export const onParticipantAdded = onDocumentUpdated("activities/{activityId}", a
 });
 
 // ────────────────────────────────────────────────────────────────────────────
-// ── 5) archivePastActivities: run every day at midnight to archive old activities
+// ── 5) archivePastActivities: every hour, archive activities that have started
+//
+// `archived` is the only thing that splits upcoming from archive in the Feed
+// and MyActivities, so it has to flip soon after the start time rather than
+// at the next midnight. deleteOldActivityChats cleans up a month later.
 // ────────────────────────────────────────────────────────────────────────────
-export const archivePastActivities = onSchedule("every day 00:00", async () => {
+export const archivePastActivities = onSchedule("every 1 hours", async () => {
   const now = new Date();
-  // Define what "old" means for deletion (e.g., activities older than 30 days)
-  const thirtyDaysAgo = new Date(now.setDate(now.getDate() - 30));
+
+  // Recurring series: make sure the next occurrences exist before we archive
+  // the ones that just ended, so each series keeps showing up in the Feed.
+  await extendActiveSeries();
 
   const activitiesToArchiveSnapshot = await db
     .collection("activities")
@@ -339,30 +382,54 @@ export const archivePastActivities = onSchedule("every day 00:00", async () => {
     .where("dateTime", "<", now) // Activities whose date/time has passed
     .get();
 
-  const activitiesToDeleteChatsSnapshot = await db
-    .collection("activities")
-    .where("dateTime", "<", thirtyDaysAgo) // Activities older than 30 days
-    .get();
-
-  if (activitiesToArchiveSnapshot.empty && activitiesToDeleteChatsSnapshot.empty) {
-    console.log("No activities to archive or delete chats for.");
+  if (activitiesToArchiveSnapshot.empty) {
+    console.log("No activities to archive.");
     return;
   }
 
   const batch = db.batch();
   let archivedCount = 0;
-  let chatDeletedCount = 0;
-  const chatDeletionPromises: Promise<void>[] = [];
 
   // --- Archive activities ---
+  const justArchived: FirebaseFirestore.QueryDocumentSnapshot[] = [];
   activitiesToArchiveSnapshot.docs.forEach((doc) => {
     if (!doc.data().archived) { // Double-check if not already archived
       batch.update(doc.ref, { archived: true });
       console.log(`Archiving activity ${doc.id}`);
+      justArchived.push(doc);
       archivedCount++;
     }
   });
 
+  // Commit Firestore batch operations
+  if (archivedCount > 0) {
+    await batch.commit();
+    console.log(`Archived ${archivedCount} activities in Firestore.`);
+    await Promise.allSettled(justArchived.map((doc) => promptForReviews(doc.id, doc.data())));
+  } else {
+    console.log("No new activities to archive.");
+  }
+});
+
+// Daily: chats of activities older than 30 days are deleted
+export const deleteOldActivityChats = onSchedule("every day 00:00", async () => {
+  const now = new Date();
+  // Define what "old" means for deletion (e.g., activities older than 30 days)
+  const thirtyDaysAgo = new Date(now.setDate(now.getDate() - 30));
+
+  const activitiesToDeleteChatsSnapshot = await db
+    .collection("activities")
+    .where("dateTime", "<", thirtyDaysAgo) // Activities older than 30 days
+    .get();
+
+  if (activitiesToDeleteChatsSnapshot.empty) {
+    console.log("No activities to delete chats for.");
+    return;
+  }
+
+  let chatDeletedCount = 0;
+  const chatDeletionPromises: Promise<void>[] = [];
+
   // --- Delete chats for very old activities ---
   activitiesToDeleteChatsSnapshot.docs.forEach((doc) => {
     const activityId = doc.id;
@@ -377,22 +444,9 @@ export const archivePastActivities = onSchedule("every day 00:00", async () => {
     // batch.delete(doc.ref);
   });
 
-  // Commit Firestore batch operations
-  if (archivedCount > 0) {
-    await batch.commit();
-    console.log(`Archived ${archivedCount} activities in Firestore.`);
-  } else {
-    console.log("No new activities to archive today.");
-  }
-
   // Wait for all chat deletions to complete
-  if (chatDeletionPromises.length > 0) {
-    await Promise.allSettled(chatDeletionPromises); // Use allSettled to ensure all promises run even if some fail
-    console.log(`Deleted chats for ${chatDeletedCount} old activities in Realtime Database.`);
-  } else {
-    console.log("No old chats to delete today.");
-  }
-
+  await Promise.allSettled(chatDeletionPromises); // Use allSettled to ensure all promises run even if some fail
+  console.log(`Deleted chats for ${chatDeletedCount} old activities in Realtime Database.`);
   console.log("Daily cleanup routine complete.");
 });
 
@@ -541,7 +595,8 @@ async function deleteChat(activityId: string) {
     }
   }
 
-  // 2. Add promises to delete the core chat data.
+  // 2. Add promises to delete the core chat data. The photo album
+  //    (activities/{id}/photos + Storage) is deliberately left alone.
   deletionPromises.push(rtdb.ref(`chat-messages/${activityId}`).remove());
   deletionPromises.push(rtdb.ref(`activity-chats/${activityId}`).remove()); // Deletes members list too
 
@@ -662,4 +717,2252 @@ export const syncBlocklistChanges = onDocumentUpdated("userProfiles/{userId}", a
           console.error(`❌ Failed to sync blocklist changes for ${blockerId}:`, error);
       }
   }
-});
\ No newline at end of file
+});
+// ────────────────────────────────────────────────────────────────────────────
+// ── 9) onJoinRequestChanged: notify host and requester as pendingParticipantIds changes
+// ────────────────────────────────────────────────────────────────────────────
+export const onJoinRequestChanged = onDocumentUpdated("activities/{activityId}", async (event) => {
+  const { activityId } = event.params;
+
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+  if (!before || !after) {
+    console.warn(`onJoinRequestChanged: missing before/after for ${activityId}`);
+    return;
+  }
+
+  const beforePending = (before.pendingParticipantIds as string[]) || [];
+  const afterPending = (after.pendingParticipantIds as string[]) || [];
+  const afterIds = (after.participantIds as string[]) || [];
+  const title = (after.title as string) || "an activity";
+  const hostIds = activityHostIds(after);
+
+  const newlyRequested = afterPending.filter((id) => !beforePending.includes(id));
+  const resolved = beforePending.filter((id) => !afterPending.includes(id));
+
+  // 1️⃣ Tell the host and co-hosts about each new request
+  if (hostIds.length > 0) {
+    for (const userId of newlyRequested) {
+      const userSnap = await db.doc(`userProfiles/${userId}`).get();
+      const displayName = userSnap.data()?.displayName || "Someone";
+      await sendPushToUsers(
+        hostIds,
+        { title: "New join request", body: `${displayName} asked to join ${title}` },
+        { activityId, type: "join_request" }
+      );
+    }
+  }
+
+  // 2️⃣ Tell each requester whether they were approved or declined
+  for (const userId of resolved) {
+    const approved = afterIds.includes(userId);
+    await sendPushToUsers(
+      [userId],
+      approved
+        ? { title: "Request approved", body: `You're in! You have joined ${title}.` }
+        : { title: "Request declined", body: `Your request to join ${title} was declined.` },
+      { activityId, type: approved ? "join_approved" : "join_declined" }
+    );
+    console.log(`Join request for ${userId} on ${activityId} resolved (approved=${approved})`);
+  }
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 10) promoteFromWaitlist: when a full activity frees a spot, move the next
+//        waitlisted users (in order) into participantIds
+// ────────────────────────────────────────────────────────────────────────────
+export const promoteFromWaitlist = onDocumentUpdated("activities/{activityId}", async (event) => {
+  const { activityId } = event.params;
+
+  const after = event.data?.after?.data();
+  if (!after) {
+    console.warn(`promoteFromWaitlist: missing after data for ${activityId}`);
+    return;
+  }
+
+  const waitlist = (after.waitlistIds as string[]) || [];
+  const maxParticipants = after.maxParticipants as number | undefined;
+  const participantCount = ((after.participantIds as string[]) || []).length;
+  if (waitlist.length === 0 || !maxParticipants || participantCount >= maxParticipants || after.status === "cancelled") {
+    return;
+  }
+
+  // Re-read inside a transaction so concurrent triggers can't promote twice
+  const activityRef = db.doc(`activities/${activityId}`);
+  const promoted = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    const data = snap.data();
+    if (!data) return [] as string[];
+
+    const participantIds = (data.participantIds as string[]) || [];
+    const waitlistIds = (data.waitlistIds as string[]) || [];
+    const freeSpots = (data.maxParticipants as number) - participantIds.length;
+    if (freeSpots <= 0 || waitlistIds.length === 0) return [] as string[];
+
+    const toPromote = waitlistIds
+      .filter((id) => !participantIds.includes(id))
+      .slice(0, freeSpots);
+    if (toPromote.length === 0) return [] as string[];
+    tx.update(activityRef, {
+      participantIds: FieldValue.arrayUnion(...toPromote),
+      waitlistIds: waitlistIds.filter((id) => !toPromote.includes(id) && !participantIds.includes(id)),
+    });
+    return toPromote;
+  });
+
+  const title = (after.title as string) || "an activity";
+  for (const userId of promoted) {
+    try {
+      const userSnap = await db.doc(`userProfiles/${userId}`).get();
+      const displayName = userSnap.data()?.displayName || null;
+
+      // 1️⃣ Add to RTDB members list (onParticipantAdded posts the join message)
+      await rtdb.ref(`activity-chats/${activityId}/members/${userId}`).set({
+        joinedAt: Date.now(),
+        name: displayName,
+      });
+      await rtdb.ref(`user-chats/${userId}/${activityId}`).set(true);
+
+      // 2️⃣ Let them know a spot opened up
+      await sendPushToUsers(
+        [userId],
+        { title: "You're off the waitlist!", body: `A spot opened up and you have joined ${title}.` },
+        { activityId, type: "waitlist_promoted" }
+      );
+      console.log(`✅ Promoted ${userId} from the waitlist of ${activityId}`);
+    } catch (err) {
+      console.error(`❌ Failed to finish promotion of ${userId} for ${activityId}:`, err);
+    }
+  }
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 11) joinActivity / leaveActivity: callable, transactional membership changes
+//
+// All capacity, visibility and blocklist checks happen inside a Firestore
+// transaction so two users can never overfill an activity. RTDB chat
+// membership is written only after the transaction commits.
+// ────────────────────────────────────────────────────────────────────────────
+type JoinStatus = "joined" | "pending" | "waitlisted";
+
+interface JoinOptions {
+  // Queue on the waitlist instead of failing when the activity is full
+  waitlist?: boolean;
+  // Accepted host invitation: skips the friends-only and approval checks
+  invited?: boolean;
+  // Host approving a pending request; must be a host, and the user must be pending
+  approvedBy?: string;
+}
+
+// Who may take part at all: shared by joining and by "maybe" / "can't go"
+// answers. Only reads, so it can run before a transaction's writes.
+async function assertActivityAccess(
+  tx: FirebaseFirestore.Transaction,
+  activityId: string,
+  activity: FirebaseFirestore.DocumentData,
+  userId: string,
+  // Vetted by a host (invitation accepted, request approved): skips the friends check
+  preApproved: boolean
+): Promise<void> {
+  const ownerId = activity.createdBy?.userId as string | undefined;
+  const participantIds = (activity.participantIds as string[]) || [];
+
+  if (activity.status === "cancelled") {
+    throw new HttpsError("failed-precondition", "This activity has been cancelled");
+  }
+
+  // Visibility: private activities are only open to the owner's friends and
+  // invitees; unlisted ones only to invitees (links join with preApproved)
+  const linkOnly = activity.unlisted === true;
+  if ((activity.isPublic === false || linkOnly) && ownerId && ownerId !== userId && !preApproved) {
+    const [ownerSnap, invitationSnap] = await Promise.all([
+      tx.get(db.doc(`userProfiles/${ownerId}`)),
+      tx.get(db.doc(`invitations/${activityId}_${userId}`)),
+    ]);
+    // A declined invitation no longer opens the door
+    const invited = invitationSnap.exists && invitationSnap.data()?.status !== "declined";
+    if (linkOnly && !invited) {
+      throw new HttpsError("permission-denied", "This activity can only be joined with an invite link");
+    }
+    const ownerFriends = (ownerSnap.data()?.friends as string[]) || [];
+    if (!ownerFriends.includes(userId) && !invited) {
+      throw new HttpsError("permission-denied", "This activity is only open to friends of the host");
+    }
+  }
+
+  // Blocklist: nobody who blocked (or was blocked by) a participant may take part
+  const userData = (await tx.get(db.doc(`userProfiles/${userId}`))).data() || {};
+  const blocked = new Set<string>([
+    ...((userData.blockedUsers as string[]) || []),
+    ...((userData.blockedBy as string[]) || []),
+  ]);
+  if (participantIds.some((id) => blocked.has(id)) || (ownerId && blocked.has(ownerId))) {
+    throw new HttpsError("permission-denied", "You can't join this activity");
+  }
+}
+
+async function joinActivityInTransaction(
+  activityId: string,
+  userId: string,
+  options: JoinOptions = {}
+): Promise<JoinStatus> {
+  const activityRef = db.doc(`activities/${activityId}`);
+
+  return db.runTransaction(async (tx) => {
+    const activitySnap = await tx.get(activityRef);
+    if (!activitySnap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = activitySnap.data()!;
+    const participantIds = (activity.participantIds as string[]) || [];
+
+    if (participantIds.includes(userId)) {
+      return "joined";
+    }
+
+    if (options.approvedBy) {
+      if (!isActivityHost(activity, options.approvedBy)) {
+        throw new HttpsError("permission-denied", "Only hosts can approve join requests");
+      }
+      if (!((activity.pendingParticipantIds as string[]) || []).includes(userId)) {
+        throw new HttpsError("failed-precondition", "There is no pending request from this user");
+      }
+    }
+    // The host already vetted the requester
+    const preApproved = options.invited === true || !!options.approvedBy;
+
+    // 1️⃣ + 2️⃣ Cancelled, visibility and blocklist
+    await assertActivityAccess(tx, activityId, activity, userId, preApproved);
+
+    // 3️⃣ Approval-required activities only get a pending request
+    if (activity.requiresApproval === true && !preApproved) {
+      tx.update(activityRef, { pendingParticipantIds: FieldValue.arrayUnion(userId) });
+      return "pending";
+    }
+
+    // 4️⃣ Capacity
+    const maxParticipants = activity.maxParticipants as number | undefined;
+    if (maxParticipants && participantIds.length >= maxParticipants) {
+      if (!options.waitlist) {
+        throw new HttpsError("resource-exhausted", "This activity is full");
+      }
+      tx.update(activityRef, { waitlistIds: FieldValue.arrayUnion(userId) });
+      return "waitlisted";
+    }
+
+    tx.update(activityRef, {
+      participantIds: FieldValue.arrayUnion(userId),
+      pendingParticipantIds: FieldValue.arrayRemove(userId),
+      waitlistIds: FieldValue.arrayRemove(userId),
+      // "Going" is participantIds membership; drop any maybe / can't go answer
+      [`rsvps.${userId}`]: FieldValue.delete(),
+    });
+    return "joined";
+  });
+}
+
+async function removeChatMember(activityId: string, userId: string) {
+  const memberSnap = await rtdb.ref(`activity-chats/${activityId}/members/${userId}`).get();
+  const displayName = memberSnap.val()?.name || memberSnap.val()?.displayName || "A participant";
+
+  await rtdb.ref(`chat-messages/${activityId}`).push({
+    senderId: "system",
+    senderName: "System",
+    text: `${displayName} has left the chat.`,
+    timestamp: Date.now(),
+    type: "system",
+  });
+  await rtdb.ref(`activity-chats/${activityId}/members/${userId}`).remove();
+  await rtdb.ref(`user-chats/${userId}/${activityId}`).remove();
+}
+
+async function addChatMember(activityId: string, userId: string) {
+  const userSnap = await db.doc(`userProfiles/${userId}`).get();
+  const displayName = userSnap.data()?.displayName || null;
+  await rtdb.ref(`activity-chats/${activityId}/members/${userId}`).set({
+    joinedAt: Date.now(),
+    name: displayName,
+  });
+  await rtdb.ref(`user-chats/${userId}/${activityId}`).set(true);
+}
+
+export const joinActivity = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to join an activity");
+  }
+  const { activityId, waitlist } = (request.data || {}) as { activityId?: string; waitlist?: boolean };
+  if (!activityId) {
+    throw new HttpsError("invalid-argument", "activityId is required");
+  }
+
+  const status = await joinActivityInTransaction(activityId, userId, { waitlist: waitlist === true });
+
+  // onParticipantAdded posts the join message; the member is written here too
+  // so the client can open the chat immediately after the call returns.
+  if (status === "joined") {
+    await addChatMember(activityId, userId);
+  }
+
+  console.log(`joinActivity: ${userId} → ${activityId} (${status})`);
+  return { status };
+});
+
+export const leaveActivity = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to leave an activity");
+  }
+  const { activityId } = (request.data || {}) as { activityId?: string };
+  if (!activityId) {
+    throw new HttpsError("invalid-argument", "activityId is required");
+  }
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  const wasParticipant = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = snap.data()!;
+    if (activity.createdBy?.userId === userId) {
+      throw new HttpsError("failed-precondition", "Transfer ownership before leaving an activity you organize.");
+    }
+
+    tx.update(activityRef, {
+      participantIds: FieldValue.arrayRemove(userId),
+      hostIds: FieldValue.arrayRemove(userId),
+      [`rsvps.${userId}`]: FieldValue.delete(),
+      pendingParticipantIds: FieldValue.arrayRemove(userId),
+      waitlistIds: FieldValue.arrayRemove(userId),
+    });
+    return ((activity.participantIds as string[]) || []).includes(userId);
+  });
+
+  if (wasParticipant) {
+    await removeChatMember(activityId, userId);
+  }
+
+  console.log(`leaveActivity: ${userId} left ${activityId} (wasParticipant=${wasParticipant})`);
+  return { status: "left" };
+});
+
+// Approval goes through the same transaction as joining, so capacity and the
+// blocklist are enforced; onJoinRequestChanged tells the requester either way.
+export const respondToJoinRequest = onCall(async (request) => {
+  const hostId = request.auth?.uid;
+  if (!hostId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to respond to join requests");
+  }
+  const { activityId, userId, approve } = (request.data || {}) as { activityId?: string; userId?: string; approve?: boolean };
+  if (!activityId || !userId || typeof approve !== "boolean") {
+    throw new HttpsError("invalid-argument", "activityId, userId and approve are required");
+  }
+
+  if (approve) {
+    await joinActivityInTransaction(activityId, userId, { approvedBy: hostId });
+    console.log(`respondToJoinRequest: ${hostId} approved ${userId} for ${activityId}`);
+    return { status: "approved" };
+  }
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    if (!isActivityHost(snap.data()!, hostId)) {
+      throw new HttpsError("permission-denied", "Only hosts can deny join requests");
+    }
+    tx.update(activityRef, { pendingParticipantIds: FieldValue.arrayRemove(userId) });
+  });
+  console.log(`respondToJoinRequest: ${hostId} denied ${userId} for ${activityId}`);
+  return { status: "denied" };
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 12) Recurring series: materialize occurrences of activitySeries/{seriesId}
+//
+// The client precomputes every occurrence date (so local wall-clock time is
+// kept across DST changes). We only keep SERIES_HORIZON upcoming occurrences
+// in `activities`; archivePastActivities tops the horizon up every hour.
+// Occurrence ids are deterministic, so running this twice never duplicates.
+// ────────────────────────────────────────────────────────────────────────────
+const SERIES_HORIZON = 4;
+
+// gRPC status 6 = ALREADY_EXISTS, thrown by DocumentReference.create()
+function isAlreadyExistsError(err: unknown): boolean {
+  return typeof err === "object" && err !== null && "code" in err && err.code === 6;
+}
+
+async function materializeSeriesOccurrences(seriesId: string) {
+  const seriesRef = db.doc(`activitySeries/${seriesId}`);
+  const seriesSnap = await seriesRef.get();
+  const series = seriesSnap.data();
+  if (!series || series.active === false) return;
+
+  const occurrenceDates = (series.occurrenceDates as Timestamp[]) || [];
+  let nextIndex = (series.occurrencesCreated as number) || 0;
+
+  const upcomingSnap = await db
+    .collection("activities")
+    .where("seriesId", "==", seriesId)
+    .where("dateTime", ">", Timestamp.now())
+    .get();
+  let upcoming = upcomingSnap.size;
+
+  const template = series.template || {};
+  const ownerId = series.createdBy?.userId as string;
+  let created = 0;
+
+  while (upcoming < SERIES_HORIZON && nextIndex < occurrenceDates.length) {
+    const occurrenceRef = db.doc(`activities/${seriesId}_${nextIndex}`);
+    const nowMillis = Date.now();
+    try {
+      await occurrenceRef.create({
+        ...template,
+        createdBy: series.createdBy,
+        dateTime: occurrenceDates[nextIndex],
+        participantIds: [ownerId],
+        pendingParticipantIds: [],
+        waitlistIds: [],
+        createdAt: nowMillis,
+        lastMessageTimestamp: Timestamp.fromMillis(nowMillis),
+        seriesId,
+        occurrenceIndex: nextIndex,
+      });
+      created++;
+    } catch (err) {
+      // Another run created it first
+      if (!isAlreadyExistsError(err)) throw err;
+    }
+    if (occurrenceDates[nextIndex].toMillis() > nowMillis) upcoming++;
+    nextIndex++;
+  }
+
+  await seriesRef.update({
+    occurrencesCreated: nextIndex,
+    active: nextIndex < occurrenceDates.length,
+  });
+  console.log(`Series ${seriesId}: created ${created} occurrence(s), ${nextIndex}/${occurrenceDates.length} materialized`);
+}
+
+export const onActivitySeriesCreated = onDocumentCreated("activitySeries/{seriesId}", async (event) => {
+  const { seriesId } = event.params;
+  try {
+    await materializeSeriesOccurrences(seriesId);
+  } catch (err) {
+    console.error(`onActivitySeriesCreated [${seriesId}] failed:`, err);
+    throw err;
+  }
+});
+
+async function extendActiveSeries() {
+  const activeSeries = await db.collection("activitySeries").where("active", "==", true).get();
+  const results = await Promise.allSettled(
+    activeSeries.docs.map((doc) => materializeSeriesOccurrences(doc.id))
+  );
+  results.forEach((r, idx) => {
+    if (r.status === "rejected") {
+      console.error(`Failed to extend series ${activeSeries.docs[idx].id}:`, r.reason);
+    }
+  });
+  console.log(`Checked ${activeSeries.size} active series for new occurrences.`);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 13) migrateActivityDateTimes: rewrite legacy dateTime values as Timestamps
+//
+// Older clients stored dateTime as an ISO / datetime-local string, and some
+// docs hold a plain {seconds, nanoseconds} map. Range queries on dateTime only
+// match values of the same type, so archivePastActivities and
+// cleanupInactiveChats silently skipped those docs. A one-off callable that an
+// admin runs after deploying; remove it once production has been migrated.
+// ────────────────────────────────────────────────────────────────────────────
+// One-off maintenance callables need the `admin` custom claim
+function assertAdmin(request: CallableRequest): void {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "You must be signed in");
+  }
+  if (request.auth.token.admin !== true) {
+    throw new HttpsError("permission-denied", "Only admins can run migrations");
+  }
+}
+
+// Serialized Timestamps (e.g. from a callable payload or an exported doc)
+function isTimestampLike(value: unknown): value is { seconds: number; nanoseconds?: number } {
+  return typeof value === "object" && value !== null && "seconds" in value && typeof value.seconds === "number";
+}
+
+function toTimestamp(value: unknown): Timestamp | null {
+  if (value instanceof Timestamp) return value;
+  if (isTimestampLike(value)) {
+    return new Timestamp(value.seconds, value.nanoseconds || 0);
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    // Zone-less datetime-local strings are read as UTC here; that's the best
+    // we can do server-side and matches how the old archive logic treated them.
+    const date = new Date(typeof value === "string" && !isNaN(Number(value)) ? Number(value) : value);
+    return isNaN(date.getTime()) ? null : Timestamp.fromDate(date);
+  }
+  return null;
+}
+
+async function migrateLegacyDateTimes(): Promise<number> {
+  const activities = db.collection("activities");
+  const snapshots = await Promise.all([
+    activities.where("dateTime", ">=", "").get(), // strings
+    activities.where("dateTime", ">=", 0).get(), // epoch millis
+    activities.where("dateTime.seconds", ">=", 0).get(), // {seconds, nanoseconds} maps
+  ]);
+
+  let migrated = 0;
+  let batch = db.batch();
+  let pending = 0;
+
+  for (const snap of snapshots) {
+    for (const doc of snap.docs) {
+      const timestamp = toTimestamp(doc.data().dateTime);
+      if (!timestamp) {
+        console.warn(`⚠️ Activity ${doc.id} has an unparseable dateTime:`, doc.data().dateTime);
+        continue;
+      }
+      batch.update(doc.ref, { dateTime: timestamp });
+      migrated++;
+      if (++pending === 400) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+  }
+  if (pending > 0) await batch.commit();
+
+  return migrated;
+}
+
+export const migrateActivityDateTimes = onCall(async (request) => {
+  assertAdmin(request);
+  const migrated = await migrateLegacyDateTimes();
+  console.log(`Migrated ${migrated} legacy activity dateTime value(s) to Timestamps.`);
+  return { migrated };
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 14) Geohash: keep activities/{id}.geohash in sync with latitude/longitude
+//
+// The Feed runs geofire range queries on `geohash`, so only activities near
+// the selected center are downloaded. Activities without coordinates (0/0)
+// get no geohash and only show up in unfiltered queries.
+// ────────────────────────────────────────────────────────────────────────────
+function activityGeohash(activity: FirebaseFirestore.DocumentData): string | null {
+  const { latitude, longitude } = activity;
+  if (typeof latitude !== "number" || typeof longitude !== "number") return null;
+  if (latitude === 0 && longitude === 0) return null;
+  return geohashForLocation([latitude, longitude]);
+}
+
+export const onActivityLocationChanged = onDocumentUpdated("activities/{activityId}", async (event) => {
+  const after = event.data?.after.data();
+  if (!after) return;
+
+  // Idempotent: our own write below re-triggers this function and stops here
+  const geohash = activityGeohash(after);
+  if ((after.geohash ?? null) === geohash) return;
+
+  await event.data!.after.ref.update({ geohash: geohash ?? FieldValue.delete() });
+  console.log(`Updated geohash for activity ${event.params.activityId} → ${geohash}`);
+});
+
+// One-off backfill for upcoming activities created before geohashes existed;
+// run once by an admin, then remove
+export const backfillActivityGeohashes = onCall(async (request) => {
+  assertAdmin(request);
+  const snap = await db.collection("activities").where("archived", "==", false).get();
+
+  let batch = db.batch();
+  let pending = 0;
+  let updated = 0;
+  for (const doc of snap.docs) {
+    const geohash = activityGeohash(doc.data());
+    if (!geohash || doc.data().geohash === geohash) continue;
+    batch.update(doc.ref, { geohash });
+    updated++;
+    if (++pending === 400) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+  if (pending > 0) await batch.commit();
+
+  console.log(`Backfilled geohash on ${updated} activit${updated === 1 ? "y" : "ies"}.`);
+  return { updated };
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 15) Search keywords: prefix index for searchActivities / searchUsers
+//
+// Text is lowercased, accents are stripped and it's split into words; every
+// word contributes its prefixes (2+ chars), so "foot" matches "Football".
+// The client normalizes queries the same way (frontend utils/search.ts).
+// ────────────────────────────────────────────────────────────────────────────
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_LENGTH = 20;
+const MAX_WORDS_PER_FIELD = 40;
+
+function searchWords(text: unknown): string[] {
+  if (typeof text !== "string") return [];
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= MIN_PREFIX_LENGTH);
+}
+
+function buildSearchKeywords(...texts: unknown[]): string[] {
+  const keywords = new Set<string>();
+  for (const text of texts) {
+    for (const word of searchWords(text).slice(0, MAX_WORDS_PER_FIELD)) {
+      for (let i = MIN_PREFIX_LENGTH; i <= Math.min(word.length, MAX_PREFIX_LENGTH); i++) {
+        keywords.add(word.slice(0, i));
+      }
+    }
+  }
+  return Array.from(keywords).sort();
+}
+
+function activitySearchKeywords(activity: FirebaseFirestore.DocumentData): string[] {
+  const tags = Array.isArray(activity.tags) ? (activity.tags as string[]).join(" ") : "";
+  return buildSearchKeywords(activity.title, activity.description, activity.location, tags);
+}
+
+function userSearchKeywords(profile: FirebaseFirestore.DocumentData): string[] {
+  const keywords = buildSearchKeywords(profile.displayName);
+  // Emails are only matched exactly, never by prefix
+  if (typeof profile.email === "string" && profile.email) {
+    const email = profile.email.trim().toLowerCase();
+    if (!keywords.includes(email)) keywords.push(email);
+  }
+  // Keep the same sorted order buildSearchKeywords returns, since sameKeywords compares in order
+  return keywords.sort();
+}
+
+function sameKeywords(a: unknown, b: string[]): boolean {
+  return Array.isArray(a) && a.length === b.length && a.every((k, i) => k === b[i]);
+}
+
+export const onActivitySearchFieldsChanged = onDocumentUpdated("activities/{activityId}", async (event) => {
+  const after = event.data?.after.data();
+  if (!after) return;
+
+  // Idempotent: unchanged text (including our own write) stops here
+  const searchKeywords = activitySearchKeywords(after);
+  if (sameKeywords(after.searchKeywords, searchKeywords)) return;
+
+  await event.data!.after.ref.update({ searchKeywords });
+  console.log(`Updated searchKeywords for activity ${event.params.activityId} (${searchKeywords.length} keywords)`);
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 16) Calendar feed: per-user secret iCal subscription of joined activities
+//
+// calendarFeeds/{token} → { userId }. The token is the only credential, so
+// regenerating it revokes every existing subscription. The feed is built on
+// each request from participantIds, so joins/leaves show up on the next poll.
+// Event formatting matches frontend utils/ics.ts.
+// ────────────────────────────────────────────────────────────────────────────
+const CALENDAR_EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
+const CALENDAR_PAST_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const CALENDAR_ORGANIZER_ADDRESS = "noreply@meetudatabutton.firebaseapp.com";
+// Where links in feeds, invites and check-in QR codes point; set per project in .env
+const APP_ORIGIN = defineString("APP_ORIGIN", { default: "https://meetudatabutton.web.app" });
+
+function icsText(value: unknown): string {
+  return String(value ?? "")
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function icsUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function icsFold(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const max = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > max) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function activityToVevent(id: string, activity: FirebaseFirestore.DocumentData): string[] {
+  // A date poll's dateTime is only a placeholder until lockActivityDate
+  if (activity.status === "scheduling") return [];
+  // Dropping the event makes subscribed calendars delete it; restoring brings it back
+  if (activity.status === "cancelled") return [];
+  const start = toTimestamp(activity.dateTime)?.toDate();
+  if (!start) return [];
+  const end = new Date(start.getTime() + CALENDAR_EVENT_DURATION_MS);
+  const url = `${APP_ORIGIN.value()}/activity-details?id=${id}`;
+  const hasCoordinates =
+    typeof activity.latitude === "number" &&
+    typeof activity.longitude === "number" &&
+    (activity.latitude !== 0 || activity.longitude !== 0);
+  const organizer = String(activity.createdBy?.displayName || "Host").replace(/"/g, "'");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${id}@meetu`,
+    `DTSTAMP:${icsUtc(new Date())}`,
+    `DTSTART:${icsUtc(start)}`,
+    `DTEND:${icsUtc(end)}`,
+    `SUMMARY:${icsText(activity.title)}`,
+    `DESCRIPTION:${icsText(`${activity.description || ""}\n\n${url}`)}`,
+    `LOCATION:${icsText(activity.location)}`,
+    ...(hasCoordinates ? [`GEO:${activity.latitude.toFixed(6)};${activity.longitude.toFixed(6)}`] : []),
+    `ORGANIZER;CN="${organizer}":mailto:${CALENDAR_ORGANIZER_ADDRESS}`,
+    `URL:${url}`,
+    `CATEGORIES:${icsText(activity.category)}`,
+    "STATUS:CONFIRMED",
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    "TRIGGER:-P1D",
+    `DESCRIPTION:${icsText(`${activity.title} is tomorrow`)}`,
+    "END:VALARM",
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    "TRIGGER:-PT1H",
+    `DESCRIPTION:${icsText(`${activity.title} starts in 1 hour`)}`,
+    "END:VALARM",
+    "END:VEVENT",
+  ];
+}
+
+function calendarFeedUrl(token: string): string {
+  return `https://us-central1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/calendarFeed?token=${token}`;
+}
+
+export const getCalendarFeedUrl = onCall<{ regenerate?: boolean }>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in.");
+  }
+
+  const existing = await db.collection("calendarFeeds").where("userId", "==", userId).get();
+  if (!existing.empty && !request.data?.regenerate) {
+    const url = calendarFeedUrl(existing.docs[0].id);
+    return { url, webcalUrl: url.replace(/^https:/, "webcal:") };
+  }
+
+  const token = randomBytes(24).toString("hex");
+  const batch = db.batch();
+  existing.docs.forEach((doc) => batch.delete(doc.ref));
+  batch.set(db.doc(`calendarFeeds/${token}`), { userId, createdAt: Date.now() });
+  await batch.commit();
+
+  console.log(`📅 ${existing.empty ? "Created" : "Regenerated"} calendar feed for ${userId}`);
+  const url = calendarFeedUrl(token);
+  return { url, webcalUrl: url.replace(/^https:/, "webcal:") };
+});
+
+export const calendarFeed = onRequest(async (req, res) => {
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  if (!/^[a-f0-9]{48}$/.test(token)) {
+    res.status(404).send("Not found");
+    return;
+  }
+
+  const feedSnap = await db.doc(`calendarFeeds/${token}`).get();
+  const userId = feedSnap.data()?.userId as string | undefined;
+  if (!userId) {
+    res.status(404).send("Not found");
+    return;
+  }
+
+  const activitiesSnap = await db
+    .collection("activities")
+    .where("participantIds", "array-contains", userId)
+    .where("dateTime", ">=", Timestamp.fromMillis(Date.now() - CALENDAR_PAST_WINDOW_MS))
+    .orderBy("dateTime", "asc")
+    .get();
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Meetu//Activities//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Meetu",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...activitiesSnap.docs.flatMap((doc) => activityToVevent(doc.id, doc.data())),
+    "END:VCALENDAR",
+  ];
+
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Cache-Control", "private, max-age=300");
+  res.status(200).send(lines.map(icsFold).join("\r\n") + "\r\n");
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 17) onActivityStatusChanged: announce cancellation / un-cancellation
+//
+// The owner sets status "cancelled" (with an optional cancellationReason)
+// through setActivityCancelled instead of deleting the activity, so the chat
+// survives and everyone who joined, requested or queued is told.
+// ────────────────────────────────────────────────────────────────────────────
+// Mirrors UNCANCEL_WINDOW_MS in the frontend activityStore
+const UNCANCEL_WINDOW_MS = 48 * 60 * 60 * 1000;
+const CANCELLATION_REASON_MAX_LENGTH = 500;
+
+export const onActivityStatusChanged = onDocumentUpdated("activities/{activityId}", async (event) => {
+  const { activityId } = event.params;
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+  if (!before || !after) return;
+
+  const wasCancelled = before.status === "cancelled";
+  const isCancelled = after.status === "cancelled";
+  if (wasCancelled === isCancelled) return;
+
+  const title = (after.title as string) || "An activity";
+  const hostId = after.createdBy?.userId as string | undefined;
+  const hostName = (after.createdBy?.displayName as string) || "The host";
+  const reason = typeof after.cancellationReason === "string" ? after.cancellationReason.trim() : "";
+
+  const text = isCancelled
+    ? `${hostName} cancelled this activity.${reason ? ` Reason: ${reason}` : ""}`
+    : `${hostName} restored this activity. It's back on!`;
+
+  try {
+    await rtdb.ref(`chat-messages/${activityId}`).push({
+      senderId: "system",
+      senderName: "System",
+      text,
+      timestamp: Date.now(),
+      type: "system",
+    });
+  } catch (err) {
+    console.error(`❌ Failed to post status message for ${activityId}:`, err);
+  }
+
+  const recipients = Array.from(
+    new Set([
+      ...((after.participantIds as string[]) || []),
+      ...((after.pendingParticipantIds as string[]) || []),
+      ...((after.waitlistIds as string[]) || []),
+    ])
+  ).filter((uid) => uid !== hostId);
+
+  await sendPushToUsers(
+    recipients,
+    isCancelled
+      ? { title: `Cancelled: ${title}`, body: reason || `${hostName} cancelled this activity.` }
+      : { title: `Back on: ${title}`, body: `${hostName} restored this activity.` },
+    { activityId, type: isCancelled ? "activity_cancelled" : "activity_restored" }
+  );
+  console.log(`📣 ${isCancelled ? "Cancellation" : "Restoration"} of ${activityId} sent to ${recipients.length} user(s)`);
+});
+
+// Owner only; restoring is allowed within UNCANCEL_WINDOW_MS and before the start
+export const setActivityCancelled = onCall<{ activityId?: string; cancelled?: boolean; reason?: string }>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to cancel an activity");
+  }
+  const { activityId, cancelled, reason } = request.data || {};
+  if (!activityId || typeof cancelled !== "boolean") {
+    throw new HttpsError("invalid-argument", "activityId and cancelled are required");
+  }
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  const changed = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = snap.data()!;
+    if (activity.createdBy?.userId !== userId) {
+      throw new HttpsError("permission-denied", `Only the organizer can ${cancelled ? "cancel" : "restore"} this activity`);
+    }
+    if ((activity.status === "cancelled") === cancelled) return false;
+
+    if (cancelled) {
+      const text = typeof reason === "string" ? reason.trim().slice(0, CANCELLATION_REASON_MAX_LENGTH) : "";
+      tx.update(activityRef, {
+        status: "cancelled",
+        cancellationReason: text || null,
+        cancelledAt: Timestamp.now(),
+      });
+      return true;
+    }
+
+    const cancelledAt = toTimestamp(activity.cancelledAt);
+    if (!cancelledAt || Date.now() - cancelledAt.toMillis() > UNCANCEL_WINDOW_MS) {
+      throw new HttpsError("failed-precondition", "This activity can no longer be restored");
+    }
+    const startsAt = toTimestamp(activity.dateTime);
+    if (startsAt && startsAt.toMillis() < Date.now()) {
+      throw new HttpsError("failed-precondition", "This activity has already started");
+    }
+    tx.update(activityRef, {
+      // An undecided poll goes back to voting
+      status: Array.isArray(activity.dateOptions) && !activity.lockedDateOptionId ? "scheduling" : "active",
+      cancellationReason: null,
+      cancelledAt: null,
+    });
+    return true;
+  });
+
+  console.log(`setActivityCancelled: ${activityId} cancelled=${cancelled} by ${userId} (changed=${changed})`);
+  return { status: cancelled ? "cancelled" : "restored" };
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 18) Host roles: co-hosts (activities/{id}.hostIds) and ownership transfer
+//
+// createdBy is the owner; hostIds holds co-hosts, who can edit details,
+// approve joins and moderate the chat. Only the owner can change roles,
+// cancel, or hand the activity over to another participant.
+// ────────────────────────────────────────────────────────────────────────────
+function activityHostIds(activity: FirebaseFirestore.DocumentData): string[] {
+  const ownerId = activity.createdBy?.userId as string | undefined;
+  const hostIds = (activity.hostIds as string[]) || [];
+  return Array.from(new Set([...(ownerId ? [ownerId] : []), ...hostIds]));
+}
+
+function isActivityHost(activity: FirebaseFirestore.DocumentData, userId: string): boolean {
+  return activityHostIds(activity).includes(userId);
+}
+
+async function displayNameOf(userId: string): Promise<string> {
+  const snap = await db.doc(`userProfiles/${userId}`).get();
+  return (snap.data()?.displayName as string) || "A participant";
+}
+
+async function postSystemMessage(activityId: string, text: string) {
+  await rtdb.ref(`chat-messages/${activityId}`).push({
+    senderId: "system",
+    senderName: "System",
+    text,
+    timestamp: Date.now(),
+    type: "system",
+  });
+}
+
+export const setActivityHost = onCall<{ activityId?: string; userId?: string; host?: boolean }>(async (request) => {
+  const callerId = request.auth?.uid;
+  if (!callerId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to manage hosts");
+  }
+  const { activityId, userId, host } = request.data || {};
+  if (!activityId || !userId || typeof host !== "boolean") {
+    throw new HttpsError("invalid-argument", "activityId, userId and host are required");
+  }
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  const changed = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = snap.data()!;
+    if (activity.createdBy?.userId !== callerId) {
+      throw new HttpsError("permission-denied", "Only the organizer can manage co-hosts");
+    }
+    if (userId === callerId) {
+      throw new HttpsError("invalid-argument", "The organizer is always a host");
+    }
+    if (host && !((activity.participantIds as string[]) || []).includes(userId)) {
+      throw new HttpsError("failed-precondition", "Only participants can become co-hosts");
+    }
+
+    const hostIds = (activity.hostIds as string[]) || [];
+    if (hostIds.includes(userId) === host) return false;
+    tx.update(activityRef, {
+      hostIds: host ? FieldValue.arrayUnion(userId) : FieldValue.arrayRemove(userId),
+    });
+    return true;
+  });
+
+  if (changed) {
+    const displayName = await displayNameOf(userId);
+    await postSystemMessage(activityId, host ? `${displayName} is now a co-host.` : `${displayName} is no longer a co-host.`);
+    if (host) {
+      await sendPushToUsers(
+        [userId],
+        { title: "You're a co-host", body: "You can now edit the activity, approve join requests and moderate the chat." },
+        { activityId, type: "cohost_added" }
+      );
+    }
+  }
+
+  console.log(`setActivityHost: ${userId} host=${host} on ${activityId} (changed=${changed})`);
+  return { status: host ? "added" : "removed" };
+});
+
+export const transferActivityOwnership = onCall<{ activityId?: string; newOwnerId?: string }>(async (request) => {
+  const callerId = request.auth?.uid;
+  if (!callerId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to transfer an activity");
+  }
+  const { activityId, newOwnerId } = request.data || {};
+  if (!activityId || !newOwnerId) {
+    throw new HttpsError("invalid-argument", "activityId and newOwnerId are required");
+  }
+  if (newOwnerId === callerId) {
+    throw new HttpsError("invalid-argument", "You already organize this activity");
+  }
+
+  const newOwnerName = await displayNameOf(newOwnerId);
+  const activityRef = db.doc(`activities/${activityId}`);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = snap.data()!;
+    if (activity.createdBy?.userId !== callerId) {
+      throw new HttpsError("permission-denied", "Only the organizer can transfer ownership");
+    }
+    if (!((activity.participantIds as string[]) || []).includes(newOwnerId)) {
+      throw new HttpsError("failed-precondition", "Ownership can only go to a participant");
+    }
+
+    // The previous owner stays on as a co-host until they leave
+    const hostIds = ((activity.hostIds as string[]) || []).filter((id) => id !== newOwnerId);
+    tx.update(activityRef, {
+      createdBy: { userId: newOwnerId, displayName: newOwnerName },
+      hostIds: Array.from(new Set([...hostIds, callerId])),
+    });
+  });
+
+  await postSystemMessage(activityId, `${newOwnerName} is now the organizer of this activity.`);
+  await sendPushToUsers(
+    [newOwnerId],
+    { title: "You're the organizer now", body: "Ownership of an activity was transferred to you." },
+    { activityId, type: "ownership_transferred" }
+  );
+
+  console.log(`transferActivityOwnership: ${activityId} ${callerId} → ${newOwnerId}`);
+  return { status: "transferred" };
+});
+
+export const deleteChatMessage = onCall<{ activityId?: string; messageId?: string }>(async (request) => {
+  const callerId = request.auth?.uid;
+  if (!callerId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to delete messages");
+  }
+  const { activityId, messageId } = request.data || {};
+  if (!activityId || !messageId) {
+    throw new HttpsError("invalid-argument", "activityId and messageId are required");
+  }
+
+  const messageRef = rtdb.ref(`chat-messages/${activityId}/${messageId}`);
+  const [messageSnap, activitySnap] = await Promise.all([
+    messageRef.get(),
+    db.doc(`activities/${activityId}`).get(),
+  ]);
+  if (!messageSnap.exists()) {
+    throw new HttpsError("not-found", "Message not found");
+  }
+
+  // Senders can delete their own messages; hosts can delete anyone's
+  const senderId = messageSnap.val()?.senderId as string | undefined;
+  const isHost = activitySnap.exists && isActivityHost(activitySnap.data()!, callerId);
+  if (senderId !== callerId && !isHost) {
+    throw new HttpsError("permission-denied", "Only hosts can remove other people's messages");
+  }
+
+  await messageRef.remove();
+  console.log(`deleteChatMessage: ${callerId} removed ${messageId} from ${activityId}`);
+  return { status: "deleted" };
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 19) Invitations: hosts invite specific friends (invitations/{activityId}_{inviteeId})
+//
+// Accepting joins through joinActivityInTransaction with { invited: true },
+// so invitees get in even on friends-only or approval-required activities.
+// ────────────────────────────────────────────────────────────────────────────
+type InvitationStatus = "pending" | "accepted" | "declined";
+
+export const inviteToActivity = onCall<{ activityId?: string; inviteeIds?: string[] }>(async (request) => {
+  const inviterId = request.auth?.uid;
+  if (!inviterId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to invite friends");
+  }
+  const { activityId, inviteeIds } = request.data || {};
+  if (!activityId || !Array.isArray(inviteeIds) || inviteeIds.length === 0) {
+    throw new HttpsError("invalid-argument", "activityId and inviteeIds are required");
+  }
+
+  const [activitySnap, inviterSnap] = await Promise.all([
+    db.doc(`activities/${activityId}`).get(),
+    db.doc(`userProfiles/${inviterId}`).get(),
+  ]);
+  if (!activitySnap.exists) {
+    throw new HttpsError("not-found", "Activity not found");
+  }
+  const activity = activitySnap.data()!;
+  if (!isActivityHost(activity, inviterId)) {
+    throw new HttpsError("permission-denied", "Only hosts can invite people");
+  }
+  if (activity.status === "cancelled") {
+    throw new HttpsError("failed-precondition", "This activity has been cancelled");
+  }
+
+  // Only the inviter's friends, and nobody who is already in
+  const inviterFriends = (inviterSnap.data()?.friends as string[]) || [];
+  const participantIds = (activity.participantIds as string[]) || [];
+  const candidates = Array.from(new Set(inviteeIds)).filter(
+    (id) => inviterFriends.includes(id) && !participantIds.includes(id)
+  );
+
+  const inviterName = (inviterSnap.data()?.displayName as string) || "A friend";
+  const title = (activity.title as string) || "an activity";
+  const invited: string[] = [];
+  for (const inviteeId of candidates) {
+    const invitationRef = db.doc(`invitations/${activityId}_${inviteeId}`);
+    const existing = await invitationRef.get();
+    // Pending or accepted invitations stay as they are; declined ones can be re-sent
+    if (existing.exists && existing.data()?.status !== "declined") continue;
+
+    await invitationRef.set({
+      activityId,
+      activityTitle: title,
+      activityDateTime: activity.dateTime ?? null,
+      inviterId,
+      inviterName,
+      inviteeId,
+      status: "pending" as InvitationStatus,
+      createdAt: Timestamp.now(),
+      respondedAt: null,
+    });
+    invited.push(inviteeId);
+  }
+
+  await sendPushToUsers(
+    invited,
+    { title: "You're invited!", body: `${inviterName} invited you to ${title}` },
+    { activityId, type: "activity_invitation" }
+  );
+
+  console.log(`inviteToActivity: ${inviterId} invited ${invited.length} user(s) to ${activityId}`);
+  return { invited: invited.length };
+});
+
+export const respondToInvitation = onCall<{ invitationId?: string; accept?: boolean }>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to respond to an invitation");
+  }
+  const { invitationId, accept } = request.data || {};
+  if (!invitationId || typeof accept !== "boolean") {
+    throw new HttpsError("invalid-argument", "invitationId and accept are required");
+  }
+
+  const invitationRef = db.doc(`invitations/${invitationId}`);
+  const invitationSnap = await invitationRef.get();
+  const invitation = invitationSnap.data();
+  if (!invitation || invitation.inviteeId !== userId) {
+    throw new HttpsError("not-found", "Invitation not found");
+  }
+  if (invitation.status !== "pending") {
+    throw new HttpsError("failed-precondition", "This invitation has already been answered");
+  }
+
+  const activityId = invitation.activityId as string;
+  let joinStatus: JoinStatus | null = null;
+  if (accept) {
+    // A full activity puts the invitee on the waitlist instead of failing
+    joinStatus = await joinActivityInTransaction(activityId, userId, { invited: true, waitlist: true });
+    if (joinStatus === "joined") {
+      await addChatMember(activityId, userId);
+    }
+  }
+
+  await invitationRef.update({
+    status: (accept ? "accepted" : "declined") as InvitationStatus,
+    respondedAt: Timestamp.now(),
+  });
+
+  if (accept) {
+    const displayName = await displayNameOf(userId);
+    await sendPushToUsers(
+      [invitation.inviterId as string],
+      { title: "Invitation accepted", body: `${displayName} accepted your invitation to ${invitation.activityTitle || "your activity"}` },
+      { activityId, type: "invitation_accepted" }
+    );
+  }
+
+  console.log(`respondToInvitation: ${userId} ${accept ? "accepted" : "declined"} ${invitationId} (${joinStatus ?? "-"})`);
+  return { status: accept ? "accepted" : "declined", joinStatus };
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 20) Invite links: revocable, signed tokens for private and unlisted activities
+//
+// A link is inviteLinks/{linkId} ({ activityId, expiresAt, maxUses, uses,
+// redeemedBy, revoked }); the token handed out is "{linkId}.{hmac}" so link
+// ids can't be guessed or altered. A valid token grants view and join rights
+// (like an invitation) until it expires, runs out of uses or is revoked.
+// Unlisted activities are link-only: joining one needs a redeemed link or an
+// invitation (enforced in assertActivityAccess).
+// ────────────────────────────────────────────────────────────────────────────
+const INVITE_LINK_SECRET = defineSecret("INVITE_LINK_SECRET");
+const INVITE_LINK_DEFAULT_HOURS = 7 * 24;
+const INVITE_LINK_MAX_HOURS = 90 * 24;
+
+function signInviteLink(linkId: string, activityId: string): string {
+  return createHmac("sha256", INVITE_LINK_SECRET.value())
+    .update(`${linkId}:${activityId}`)
+    .digest("base64url");
+}
+
+async function verifyInviteToken(token: string) {
+  const [linkId, signature] = token.split(".");
+  if (!linkId || !signature) {
+    throw new HttpsError("invalid-argument", "This invite link is invalid");
+  }
+  const linkRef = db.doc(`inviteLinks/${linkId}`);
+  const link = (await linkRef.get()).data();
+  const expected = link ? Buffer.from(signInviteLink(linkId, link.activityId as string)) : null;
+  const actual = Buffer.from(signature);
+  if (!link || !expected || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new HttpsError("permission-denied", "This invite link is invalid");
+  }
+  if (link.revoked === true) {
+    throw new HttpsError("permission-denied", "This invite link has been revoked");
+  }
+  if ((link.expiresAt as Timestamp).toMillis() < Date.now()) {
+    throw new HttpsError("deadline-exceeded", "This invite link has expired");
+  }
+  return { linkRef, link };
+}
+
+export const createInviteLink = onCall<{ activityId?: string; expiresInHours?: number; maxUses?: number | null }>(
+  { secrets: [INVITE_LINK_SECRET] },
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "You must be signed in to create invite links");
+    }
+    const { activityId, expiresInHours, maxUses } = request.data || {};
+    if (!activityId) {
+      throw new HttpsError("invalid-argument", "activityId is required");
+    }
+    const hours = Math.min(Math.max(Number(expiresInHours) || INVITE_LINK_DEFAULT_HOURS, 1), INVITE_LINK_MAX_HOURS);
+    const uses = maxUses ? Math.max(Math.floor(Number(maxUses)), 1) : null;
+
+    const activitySnap = await db.doc(`activities/${activityId}`).get();
+    if (!activitySnap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    if (!isActivityHost(activitySnap.data()!, userId)) {
+      throw new HttpsError("permission-denied", "Only hosts can create invite links");
+    }
+
+    const linkRef = db.collection("inviteLinks").doc();
+    await linkRef.set({
+      activityId,
+      createdBy: userId,
+      createdAt: Timestamp.now(),
+      expiresAt: Timestamp.fromMillis(Date.now() + hours * 60 * 60 * 1000),
+      maxUses: uses,
+      uses: 0,
+      redeemedBy: [],
+      revoked: false,
+    });
+
+    const token = `${linkRef.id}.${signInviteLink(linkRef.id, activityId)}`;
+    console.log(`🔗 Invite link ${linkRef.id} created for ${activityId} by ${userId}`);
+    return {
+      linkId: linkRef.id,
+      token,
+      url: `${APP_ORIGIN.value()}/activity-details?id=${activityId}&invite=${encodeURIComponent(token)}`,
+    };
+  }
+);
+
+export const revokeInviteLink = onCall<{ linkId?: string }>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to revoke invite links");
+  }
+  const { linkId } = request.data || {};
+  if (!linkId) {
+    throw new HttpsError("invalid-argument", "linkId is required");
+  }
+
+  const linkRef = db.doc(`inviteLinks/${linkId}`);
+  const link = (await linkRef.get()).data();
+  if (!link) {
+    throw new HttpsError("not-found", "Invite link not found");
+  }
+  const activitySnap = await db.doc(`activities/${link.activityId}`).get();
+  if (!activitySnap.exists || !isActivityHost(activitySnap.data()!, userId)) {
+    throw new HttpsError("permission-denied", "Only hosts can revoke invite links");
+  }
+
+  await linkRef.update({ revoked: true, revokedAt: Timestamp.now() });
+  console.log(`🔗 Invite link ${linkId} revoked by ${userId}`);
+  return { status: "revoked" };
+});
+
+// Verifies a token and, with join: true, joins through it (one use per person)
+export const redeemInviteLink = onCall<{ token?: string; join?: boolean }>(
+  { secrets: [INVITE_LINK_SECRET] },
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "You must be signed in to use an invite link");
+    }
+    const { token, join } = request.data || {};
+    if (!token) {
+      throw new HttpsError("invalid-argument", "token is required");
+    }
+
+    const { linkRef, link } = await verifyInviteToken(token);
+    const activityId = link.activityId as string;
+    const activitySnap = await db.doc(`activities/${activityId}`).get();
+    if (!activitySnap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+
+    // Without join the call only confirms the link, which unlocks the details page
+    if (!join) {
+      return { activityId, joinStatus: null };
+    }
+
+    // Claim a use first so concurrent redemptions can't exceed maxUses
+    const claimed = await db.runTransaction(async (tx) => {
+      const data = (await tx.get(linkRef)).data()!;
+      const redeemedBy = (data.redeemedBy as string[]) || [];
+      if (redeemedBy.includes(userId)) return false;
+      if (data.maxUses && (data.uses as number) >= (data.maxUses as number)) {
+        throw new HttpsError("resource-exhausted", "This invite link has been used up");
+      }
+      tx.update(linkRef, { uses: FieldValue.increment(1), redeemedBy: FieldValue.arrayUnion(userId) });
+      return true;
+    });
+
+    let joinStatus: JoinStatus;
+    try {
+      joinStatus = await joinActivityInTransaction(activityId, userId, { invited: true, waitlist: true });
+    } catch (err) {
+      if (claimed) {
+        await linkRef.update({ uses: FieldValue.increment(-1), redeemedBy: FieldValue.arrayRemove(userId) });
+      }
+      throw err;
+    }
+    if (joinStatus === "joined") {
+      await addChatMember(activityId, userId);
+    }
+
+    console.log(`🔗 ${userId} joined ${activityId} via invite link ${linkRef.id} (${joinStatus})`);
+    return { activityId, joinStatus };
+  }
+);
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 21) RSVPs: going / maybe / can't go
+//
+// "Going" is membership of participantIds (so capacity, approval and the
+// waitlist keep working); activities/{id}.rsvps.{uid} only records "maybe"
+// and "declined", which never count against maxParticipants.
+// ────────────────────────────────────────────────────────────────────────────
+type RsvpStatus = "going" | "maybe" | "declined";
+
+export const setRsvp = onCall<{ activityId?: string; status?: RsvpStatus }>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to RSVP");
+  }
+  const { activityId, status } = request.data || {};
+  if (!activityId || !status || !["going", "maybe", "declined"].includes(status)) {
+    throw new HttpsError("invalid-argument", "activityId and a valid status are required");
+  }
+
+  if (status === "going") {
+    const joinStatus = await joinActivityInTransaction(activityId, userId, { waitlist: true });
+    if (joinStatus === "joined") {
+      await addChatMember(activityId, userId);
+    }
+    console.log(`setRsvp: ${userId} going to ${activityId} (${joinStatus})`);
+    return { status, joinStatus };
+  }
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  const wasParticipant = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = snap.data()!;
+    if (activity.createdBy?.userId === userId) {
+      throw new HttpsError("failed-precondition", "The organizer is always going");
+    }
+
+    const participantIds = (activity.participantIds as string[]) || [];
+    // A tentative answer needs the same access as joining; a previous answer
+    // grants nothing, only current participants were already vetted
+    await assertActivityAccess(tx, activityId, activity, userId, participantIds.includes(userId));
+
+    // Stepping back from "going" frees the spot (promoteFromWaitlist fills it)
+    tx.update(activityRef, {
+      [`rsvps.${userId}`]: status,
+      participantIds: FieldValue.arrayRemove(userId),
+      pendingParticipantIds: FieldValue.arrayRemove(userId),
+      waitlistIds: FieldValue.arrayRemove(userId),
+      hostIds: FieldValue.arrayRemove(userId),
+    });
+    return participantIds.includes(userId);
+  });
+
+  if (wasParticipant) {
+    await removeChatMember(activityId, userId);
+  }
+
+  console.log(`setRsvp: ${userId} ${status} for ${activityId} (wasParticipant=${wasParticipant})`);
+  return { status, joinStatus: null };
+});
+
+// Every hour, ask "maybe" users of activities starting in ~24h to decide
+export const nudgeMaybeRsvps = onSchedule("every 60 minutes", async () => {
+  const now = Date.now();
+  const snapshot = await db
+    .collection("activities")
+    .where("dateTime", ">=", Timestamp.fromMillis(now + 23 * 60 * 60 * 1000))
+    .where("dateTime", "<", Timestamp.fromMillis(now + 24 * 60 * 60 * 1000))
+    .get();
+
+  let nudged = 0;
+  for (const doc of snapshot.docs) {
+    const activity = doc.data();
+    if (activity.status === "cancelled" || activity.status === "scheduling" || activity.rsvpNudgeSentAt) continue;
+
+    const maybeIds = Object.entries((activity.rsvps as Record<string, RsvpStatus>) || {})
+      .filter(([, status]) => status === "maybe")
+      .map(([uid]) => uid);
+
+    // Mark first so an overlapping run can't nudge twice
+    await doc.ref.update({ rsvpNudgeSentAt: Timestamp.now() });
+    if (maybeIds.length === 0) continue;
+
+    const title = (activity.title as string) || "An activity";
+    await sendPushToUsers(
+      maybeIds,
+      { title: `${title} is tomorrow`, body: "You said maybe. Are you going? Tap to confirm your RSVP." },
+      { activityId: doc.id, type: "rsvp_nudge" }
+    );
+    nudged += maybeIds.length;
+  }
+
+  console.log(`nudgeMaybeRsvps: nudged ${nudged} user(s) across ${snapshot.size} activit(ies)`);
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 22) Attendance: host checklist or QR check-in, then profile counters
+//
+// Check-in is open from an hour before the start until a day after it.
+// Participants scan a QR code that opens the details page with a signed
+// ?checkin= code; hosts can also tick people off by hand. Once the window
+// closes, finalizeAttendance adds attendedCount / noShowCount to each
+// participant's profile (only for activities where attendance was taken).
+// ────────────────────────────────────────────────────────────────────────────
+const CHECK_IN_OPENS_BEFORE_MS = 60 * 60 * 1000;
+const CHECK_IN_CLOSES_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Same secret as invite links; the "checkin:" prefix keeps the token kinds apart
+function signCheckIn(activityId: string): string {
+  return createHmac("sha256", INVITE_LINK_SECRET.value())
+    .update(`checkin:${activityId}`)
+    .digest("base64url");
+}
+
+function assertCheckInOpen(activity: FirebaseFirestore.DocumentData) {
+  const start = (activity.dateTime as Timestamp | undefined)?.toMillis?.();
+  const now = Date.now();
+  if (!start || now < start - CHECK_IN_OPENS_BEFORE_MS) {
+    throw new HttpsError("failed-precondition", "Check-in opens an hour before the activity starts");
+  }
+  if (now > start + CHECK_IN_CLOSES_AFTER_MS) {
+    throw new HttpsError("failed-precondition", "Check-in for this activity has closed");
+  }
+  if (activity.status === "cancelled") {
+    throw new HttpsError("failed-precondition", "This activity has been cancelled");
+  }
+}
+
+export const getCheckInCode = onCall<{ activityId?: string }>({ secrets: [INVITE_LINK_SECRET] }, async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in");
+  }
+  const { activityId } = request.data || {};
+  if (!activityId) {
+    throw new HttpsError("invalid-argument", "activityId is required");
+  }
+  const snap = await db.doc(`activities/${activityId}`).get();
+  if (!snap.exists) {
+    throw new HttpsError("not-found", "Activity not found");
+  }
+  if (!isActivityHost(snap.data()!, userId)) {
+    throw new HttpsError("permission-denied", "Only hosts can run check-in");
+  }
+
+  const code = signCheckIn(activityId);
+  return { url: `${APP_ORIGIN.value()}/activity-details?id=${activityId}&checkin=${code}` };
+});
+
+export const checkIn = onCall<{ activityId?: string; code?: string }>({ secrets: [INVITE_LINK_SECRET] }, async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to check in");
+  }
+  const { activityId, code } = request.data || {};
+  if (!activityId || !code) {
+    throw new HttpsError("invalid-argument", "activityId and code are required");
+  }
+  const expected = Buffer.from(signCheckIn(activityId));
+  const actual = Buffer.from(code);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new HttpsError("permission-denied", "This check-in code is invalid");
+  }
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = snap.data()!;
+    assertCheckInOpen(activity);
+    if (!((activity.participantIds as string[]) || []).includes(userId)) {
+      throw new HttpsError("failed-precondition", "Only participants can check in");
+    }
+    tx.update(activityRef, { attendedIds: FieldValue.arrayUnion(userId), attendanceTaken: true });
+  });
+
+  console.log(`✅ ${userId} checked in to ${activityId}`);
+  return { status: "checked_in" };
+});
+
+export const setAttendance = onCall<{ activityId?: string; userId?: string; attended?: boolean }>(async (request) => {
+  const hostId = request.auth?.uid;
+  if (!hostId) {
+    throw new HttpsError("unauthenticated", "You must be signed in");
+  }
+  const { activityId, userId, attended } = request.data || {};
+  if (!activityId || !userId || typeof attended !== "boolean") {
+    throw new HttpsError("invalid-argument", "activityId, userId and attended are required");
+  }
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = snap.data()!;
+    if (!isActivityHost(activity, hostId)) {
+      throw new HttpsError("permission-denied", "Only hosts can take attendance");
+    }
+    assertCheckInOpen(activity);
+    if (!((activity.participantIds as string[]) || []).includes(userId)) {
+      throw new HttpsError("failed-precondition", "Only participants can be checked in");
+    }
+    tx.update(activityRef, {
+      attendedIds: attended ? FieldValue.arrayUnion(userId) : FieldValue.arrayRemove(userId),
+      attendanceTaken: true,
+    });
+  });
+
+  return { status: attended ? "attended" : "absent" };
+});
+
+// Two days of slack covers a missed run without rescanning every old activity
+const FINALIZE_ATTENDANCE_LOOKBACK_MS = 48 * 60 * 60 * 1000;
+
+export const finalizeAttendance = onSchedule("every day 02:00", async () => {
+  const cutoff = Date.now() - CHECK_IN_CLOSES_AFTER_MS;
+  const snapshot = await db
+    .collection("activities")
+    .where("attendanceTaken", "==", true)
+    .where("dateTime", ">", Timestamp.fromMillis(cutoff - FINALIZE_ATTENDANCE_LOOKBACK_MS))
+    .where("dateTime", "<=", Timestamp.fromMillis(cutoff))
+    .get();
+
+  let finalized = 0;
+  for (const doc of snapshot.docs) {
+    const candidate = doc.data();
+    if (candidate.attendanceFinalized === true || candidate.status === "cancelled") continue;
+
+    // The flag and the counters commit together, so a retry can't count anyone twice
+    const done = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(doc.ref);
+      const activity = snap.data();
+      if (!activity || activity.attendanceFinalized === true || activity.status === "cancelled") return false;
+
+      // The organizer isn't scored; everyone else who was "going" either showed up or didn't
+      const ownerId = activity.createdBy?.userId as string | undefined;
+      const attended = new Set((activity.attendedIds as string[]) || []);
+      const participants = ((activity.participantIds as string[]) || []).filter((id) => id !== ownerId);
+
+      for (const uid of participants) {
+        tx.set(
+          db.doc(`userProfiles/${uid}`),
+          attended.has(uid) ? { attendedCount: FieldValue.increment(1) } : { noShowCount: FieldValue.increment(1) },
+          { merge: true }
+        );
+      }
+      tx.update(doc.ref, { attendanceFinalized: true });
+      return true;
+    });
+    if (done) finalized++;
+  }
+
+  console.log(`finalizeAttendance: finalized ${finalized} activit(ies)`);
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 23) Reviews: participants rate an archived activity and its host
+//
+// One review per participant at activities/{activityId}/reviews/{uid}, written
+// only through submitReview. onReviewWritten keeps the running totals on the
+// activity (ratingSum / ratingCount / reviewerIds) and on the organizer's
+// profile (hostRatingSum / hostRatingCount) so clients can show averages
+// without reading every review.
+// ────────────────────────────────────────────────────────────────────────────
+const REVIEW_COMMENT_MAX_LENGTH = 1000;
+const REVIEW_EVENT_MARKER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Checked-in people count even if they left the participant list afterwards
+function canReviewActivity(activity: FirebaseFirestore.DocumentData, userId: string): boolean {
+  if (activity.archived !== true || activity.status === "cancelled") return false;
+  if (activity.createdBy?.userId === userId) return false;
+  return ((activity.participantIds as string[]) || []).includes(userId)
+    || ((activity.attendedIds as string[]) || []).includes(userId);
+}
+
+async function promptForReviews(activityId: string, activity: FirebaseFirestore.DocumentData) {
+  if (activity.status === "cancelled") return;
+  const ownerId = activity.createdBy?.userId as string | undefined;
+  const reviewerIds = Array.from(new Set([
+    ...((activity.participantIds as string[]) || []),
+    ...((activity.attendedIds as string[]) || []),
+  ])).filter((id) => id !== ownerId);
+  if (reviewerIds.length === 0) return;
+
+  const title = (activity.title as string) || "your activity";
+  await sendPushToUsers(
+    reviewerIds,
+    { title: `How was ${title}?`, body: "Tap to rate the activity and its host." },
+    { activityId, type: "review_prompt" }
+  );
+}
+
+function isStarRating(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+export const submitReview = onCall<{
+  activityId?: string;
+  activityRating?: number;
+  hostRating?: number;
+  comment?: string;
+}>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to leave a review");
+  }
+  const { activityId, activityRating, hostRating, comment } = request.data || {};
+  if (!activityId) {
+    throw new HttpsError("invalid-argument", "activityId is required");
+  }
+  if (!isStarRating(activityRating) || !isStarRating(hostRating)) {
+    throw new HttpsError("invalid-argument", "Ratings must be whole stars from 1 to 5");
+  }
+  const text = typeof comment === "string" ? comment.trim() : "";
+  if (text.length > REVIEW_COMMENT_MAX_LENGTH) {
+    throw new HttpsError("invalid-argument", `Reviews are limited to ${REVIEW_COMMENT_MAX_LENGTH} characters`);
+  }
+
+  const activitySnap = await db.doc(`activities/${activityId}`).get();
+  if (!activitySnap.exists) {
+    throw new HttpsError("not-found", "Activity not found");
+  }
+  const activity = activitySnap.data()!;
+  if (!canReviewActivity(activity, userId)) {
+    throw new HttpsError("permission-denied", "Only participants can review an activity once it's over");
+  }
+
+  const reviewRef = activitySnap.ref.collection("reviews").doc(userId);
+  const existing = await reviewRef.get();
+  await reviewRef.set({
+    reviewerId: userId,
+    reviewerName: await displayNameOf(userId),
+    // Pinned at review time so a later ownership transfer doesn't move the rating
+    hostId: activity.createdBy.userId,
+    activityRating,
+    hostRating,
+    comment: text,
+    createdAt: existing.exists ? existing.get("createdAt") : FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  return { status: existing.exists ? "updated" : "created" };
+});
+
+export const onReviewWritten = onDocumentWritten("activities/{activityId}/reviews/{reviewerId}", async (event) => {
+  const before = event.data?.before.exists ? event.data.before.data()! : null;
+  const after = event.data?.after.exists ? event.data.after.data()! : null;
+  const { activityId, reviewerId } = event.params;
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  // Triggers can be delivered more than once; the marker makes a retry a no-op
+  const markerRef = db.doc(`reviewTotalEvents/${event.id}`);
+
+  await db.runTransaction(async (tx) => {
+    if ((await tx.get(markerRef)).exists) return;
+    applyReviewTotals(tx, activityRef, reviewerId, before, after);
+    tx.create(markerRef, {
+      activityId,
+      reviewerId,
+      processedAt: FieldValue.serverTimestamp(),
+      // TTL policy (firestore.indexes.json) deletes markers once retries are long over
+      expiresAt: Timestamp.fromMillis(Date.now() + REVIEW_EVENT_MARKER_TTL_MS),
+    });
+  });
+});
+
+function applyReviewTotals(
+  tx: FirebaseFirestore.Transaction,
+  activityRef: FirebaseFirestore.DocumentReference,
+  reviewerId: string,
+  before: FirebaseFirestore.DocumentData | null,
+  after: FirebaseFirestore.DocumentData | null
+) {
+  tx.set(activityRef, {
+    ratingSum: FieldValue.increment((after?.activityRating ?? 0) - (before?.activityRating ?? 0)),
+    ratingCount: FieldValue.increment((after ? 1 : 0) - (before ? 1 : 0)),
+    reviewerIds: after ? FieldValue.arrayUnion(reviewerId) : FieldValue.arrayRemove(reviewerId),
+  }, { merge: true });
+
+  // Edits usually keep the same host; a deleted or re-pinned review moves totals between hosts
+  const hostDeltas = new Map<string, { sum: number; count: number }>();
+  if (before?.hostId) {
+    hostDeltas.set(before.hostId, { sum: -before.hostRating, count: -1 });
+  }
+  if (after?.hostId) {
+    const delta = hostDeltas.get(after.hostId) ?? { sum: 0, count: 0 };
+    hostDeltas.set(after.hostId, { sum: delta.sum + after.hostRating, count: delta.count + 1 });
+  }
+  hostDeltas.forEach(({ sum, count }, hostId) => {
+    if (sum === 0 && count === 0) return;
+    tx.set(db.doc(`userProfiles/${hostId}`), {
+      hostRatingSum: FieldValue.increment(sum),
+      hostRatingCount: FieldValue.increment(count),
+    }, { merge: true });
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 24) Photo album: activities/{activityId}/photos/{photoId}
+//
+// Participants upload straight to Storage (activity_photos/{activityId}/...)
+// and add the photo document themselves. Deleting goes through here so the
+// uploader or a host can remove both image sizes along with the document.
+// ────────────────────────────────────────────────────────────────────────────
+export const deleteActivityPhoto = onCall<{ activityId?: string; photoId?: string }>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "You must be signed in");
+  }
+  const { activityId, photoId } = request.data || {};
+  if (!activityId || !photoId) {
+    throw new HttpsError("invalid-argument", "activityId and photoId are required");
+  }
+
+  const photoRef = db.doc(`activities/${activityId}/photos/${photoId}`);
+  const [photoSnap, activitySnap] = await Promise.all([photoRef.get(), db.doc(`activities/${activityId}`).get()]);
+  if (!photoSnap.exists) {
+    throw new HttpsError("not-found", "Photo not found");
+  }
+  const photo = photoSnap.data()!;
+  const isHost = activitySnap.exists && isActivityHost(activitySnap.data()!, userId);
+  if (photo.uploaderId !== userId && !isHost) {
+    throw new HttpsError("permission-denied", "Only the uploader or a host can delete this photo");
+  }
+
+  // Paths are checked against the album folder so a crafted document can't point elsewhere
+  const bucket = getStorage().bucket();
+  const folder = `activity_photos/${activityId}/`;
+  await Promise.all(
+    [photo.path, photo.thumbPath]
+      .filter((path): path is string => typeof path === "string" && path.startsWith(folder))
+      .map((path) => bucket.file(path).delete({ ignoreNotFound: true }))
+  );
+  await photoRef.delete();
+
+  console.log(`🗑️ ${userId} deleted photo ${photoId} from ${activityId}`);
+  return { status: "deleted" };
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 25) Category registry and tags
+//
+// categories/{id} → { label, icon, color, order, active }. Document ids are the
+// values stored in activities/{id}.category, so existing activities keep
+// matching; admins add or retire categories in the console. The defaults
+// below mirror frontend utils/categoryStore.ts; an admin seeds them once with
+// the seedCategoryRegistry callable, which is removed after that first run.
+//
+// activities/{id}.tags are free-form; onActivityTagsWritten normalizes them and
+// keeps activityTags/{tag}.count up to date for the Create form's autocomplete.
+// ────────────────────────────────────────────────────────────────────────────
+const DEFAULT_CATEGORIES = [
+  { id: "Sports", label: "Sports", icon: "bike", color: "#10b981" },
+  { id: "Dining", label: "Dining", icon: "utensils-crossed", color: "#f43f5e" },
+  { id: "Hiking", label: "Hiking", icon: "mountain", color: "#65a30d" },
+  { id: "Gaming", label: "Gaming", icon: "gamepad-2", color: "#6366f1" },
+  { id: "Movies", label: "Movies", icon: "clapperboard", color: "#475569" },
+  { id: "Travel", label: "Travel", icon: "plane", color: "#0ea5e9" },
+  { id: "Music", label: "Music", icon: "music", color: "#a855f7" },
+  { id: "Cooking", label: "Cooking", icon: "chef-hat", color: "#f59e0b" },
+  { id: "Hangout", label: "Hangout", icon: "users", color: "#ec4899" },
+];
+
+const MAX_TAGS_PER_ACTIVITY = 5;
+const MAX_TAG_LENGTH = 24;
+
+// "#Board Games " → "board-games"; same rules as normalizeTag in the frontend
+function normalizeTag(raw: unknown): string {
+  if (typeof raw !== "string") return "";
+  return raw
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/^#+/, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .replace(/[^\p{L}\p{N}-]/gu, "")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+function normalizeTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return Array.from(new Set(raw.map(normalizeTag).filter(Boolean))).slice(0, MAX_TAGS_PER_ACTIVITY);
+}
+
+// Only creates missing categories, but rerunning it would bring back ones an
+// admin deleted, so it's a manual one-off rather than a schedule
+export const seedCategoryRegistry = onCall(async (request) => {
+  assertAdmin(request);
+  let created = 0;
+  await Promise.all(
+    DEFAULT_CATEGORIES.map(async ({ id, ...category }, index) => {
+      const ref = db.doc(`categories/${id}`);
+      if ((await ref.get()).exists) return;
+      await ref.set({ ...category, order: index, active: true });
+      created++;
+    })
+  );
+  console.log(`seedCategoryRegistry: created ${created} categor(ies)`);
+  return { created };
+});
+
+export const onActivityTagsWritten = onDocumentWritten("activities/{activityId}", async (event) => {
+  const before = event.data?.before.exists ? event.data.before.data()! : null;
+  const after = event.data?.after.exists ? event.data.after.data()! : null;
+
+  // Compare normalized lists, so our own clean-up write below is a no-op here
+  const beforeTags = normalizeTags(before?.tags);
+  const afterTags = normalizeTags(after?.tags);
+
+  if (after && after.tags !== undefined && !sameKeywords(after.tags, afterTags)) {
+    await event.data!.after.ref.update({ tags: afterTags });
+  }
+
+  const added = afterTags.filter((tag) => !beforeTags.includes(tag));
+  const removed = beforeTags.filter((tag) => !afterTags.includes(tag));
+  if (added.length === 0 && removed.length === 0) return;
+
+  const batch = db.batch();
+  for (const tag of added) {
+    batch.set(db.doc(`activityTags/${tag}`), { count: FieldValue.increment(1), lastUsedAt: FieldValue.serverTimestamp() }, { merge: true });
+  }
+  for (const tag of removed) {
+    batch.set(db.doc(`activityTags/${tag}`), { count: FieldValue.increment(-1) }, { merge: true });
+  }
+  await batch.commit();
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 26) Scheduling polls: participants vote on candidate date-times
+//
+// A "scheduling" activity carries dateOptions [{ id, dateTime }] and
+// dateVotes { [uid]: optionId[] }, which participants write directly. Its
+// dateTime holds the latest option, so archivePastActivities leaves it alone
+// while any option is still open. A host locks in the winner here: that
+// sets dateTime, flips the status to "active", posts to the chat and
+// notifies everyone who voted.
+// ────────────────────────────────────────────────────────────────────────────
+interface DateOption {
+  id: string;
+  dateTime: Timestamp;
+}
+
+// The server has no idea where people are; clients tell us their time zone
+function formatActivityWhen(date: Date, timeZone?: string): string {
+  const options: Intl.DateTimeFormatOptions = { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" };
+  try {
+    return date.toLocaleString("en-US", { ...options, timeZone: timeZone || "UTC" });
+  } catch {
+    return date.toLocaleString("en-US", { ...options, timeZone: "UTC" });
+  }
+}
+
+export const lockActivityDate = onCall<{ activityId?: string; optionId?: string; timeZone?: string }>(async (request) => {
+  const callerId = request.auth?.uid;
+  if (!callerId) {
+    throw new HttpsError("unauthenticated", "You must be signed in to pick a date");
+  }
+  const { activityId, optionId, timeZone } = request.data || {};
+  if (!activityId || !optionId) {
+    throw new HttpsError("invalid-argument", "activityId and optionId are required");
+  }
+
+  const activityRef = db.doc(`activities/${activityId}`);
+  const { activity, option } = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(activityRef);
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Activity not found");
+    }
+    const activity = snap.data()!;
+    if (!isActivityHost(activity, callerId)) {
+      throw new HttpsError("permission-denied", "Only hosts can pick the date");
+    }
+    if (activity.status !== "scheduling") {
+      throw new HttpsError("failed-precondition", "This activity's date is already set");
+    }
+    const option = ((activity.dateOptions as DateOption[]) || []).find((o) => o.id === optionId);
+    if (!option) {
+      throw new HttpsError("not-found", "That date option doesn't exist");
+    }
+    if (option.dateTime.toMillis() < Date.now()) {
+      throw new HttpsError("failed-precondition", "That date has already passed");
+    }
+    tx.update(activityRef, {
+      dateTime: option.dateTime,
+      status: "active",
+      lockedDateOptionId: option.id,
+    });
+    return { activity, option };
+  });
+
+  const title = (activity.title as string) || "An activity";
+  const when = formatActivityWhen(option.dateTime.toDate(), timeZone);
+  const hostName = await displayNameOf(callerId);
+
+  try {
+    await postSystemMessage(activityId, `${hostName} picked the date: ${when}`);
+  } catch (err) {
+    console.error(`❌ Failed to post date message for ${activityId}:`, err);
+  }
+
+  const voterIds = Object.keys((activity.dateVotes as Record<string, string[]>) || {}).filter((uid) => uid !== callerId);
+  await sendPushToUsers(
+    voterIds,
+    { title: `Date set: ${title}`, body: `It's happening ${when}` },
+    { activityId, type: "date_locked" }
+  );
+
+  console.log(`lockActivityDate: ${activityId} set to option ${option.id}, notified ${voterIds.length} voter(s)`);
+  return { status: "locked" as const };
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 27) Activity reminders: push ~24h and ~1h before the start
+//
+// remindersSent.{kind} stores the start time (ms) a reminder went out for,
+// claimed in a transaction before sending. Overlapping runs therefore can't
+// double-send, while a rescheduled activity gets fresh reminders. Users turn
+// kinds off with userProfiles.reminderSettings, and times are shown in the
+// profile's timeZone, which the client records on sign-in.
+// ────────────────────────────────────────────────────────────────────────────
+type ReminderKind = "dayBefore" | "hourBefore";
+
+const REMINDERS: { kind: ReminderKind; leadMs: number; windowMs: number }[] = [
+  // Only activities that still start a good day out get the "tomorrow" push
+  { kind: "dayBefore", leadMs: 24 * 60 * 60 * 1000, windowMs: 2 * 60 * 60 * 1000 },
+  { kind: "hourBefore", leadMs: 60 * 60 * 1000, windowMs: 60 * 60 * 1000 },
+];
+
+async function claimReminder(ref: FirebaseFirestore.DocumentReference, kind: ReminderKind): Promise<FirebaseFirestore.DocumentData | null> {
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const activity = snap.data();
+    if (!activity) return null;
+    const startMs = toTimestamp(activity.dateTime)?.toMillis();
+    if (!startMs || activity.remindersSent?.[kind] === startMs) return null;
+    tx.update(ref, { [`remindersSent.${kind}`]: startMs });
+    return activity;
+  });
+}
+
+export const sendActivityReminders = onSchedule("every 15 minutes", async () => {
+  const now = Date.now();
+  let sent = 0;
+
+  for (const { kind, leadMs, windowMs } of REMINDERS) {
+    const snapshot = await db
+      .collection("activities")
+      .where("dateTime", ">", Timestamp.fromMillis(now + leadMs - windowMs))
+      .where("dateTime", "<=", Timestamp.fromMillis(now + leadMs))
+      .get();
+
+    for (const doc of snapshot.docs) {
+      const candidate = doc.data();
+      // Polls have no real date yet; cancelled and archived ones need no reminder
+      if (candidate.status === "cancelled" || candidate.status === "scheduling" || candidate.archived === true) continue;
+      if (candidate.remindersSent?.[kind] === toTimestamp(candidate.dateTime)?.toMillis()) continue;
+
+      const activity = await claimReminder(doc.ref, kind);
+      if (!activity) continue;
+
+      const participantIds = (activity.participantIds as string[]) || [];
+      if (participantIds.length === 0) continue;
+      const profiles = await db.getAll(...participantIds.map((uid) => db.doc(`userProfiles/${uid}`)));
+
+      // One push per time zone so everyone sees their own clock
+      const byTimeZone = new Map<string, string[]>();
+      for (const profile of profiles) {
+        const data = profile.data();
+        if (!data || data.reminderSettings?.[kind] === false) continue;
+        const timeZone = typeof data.timeZone === "string" ? data.timeZone : "";
+        byTimeZone.set(timeZone, [...(byTimeZone.get(timeZone) || []), profile.id]);
+      }
+
+      const title = (activity.title as string) || "Your activity";
+      const start = toTimestamp(activity.dateTime)!.toDate();
+      const location = (activity.location as string) || "";
+      for (const [timeZone, uids] of byTimeZone) {
+        const when = formatActivityWhen(start, timeZone || undefined);
+        await sendPushToUsers(
+          uids,
+          {
+            title: kind === "dayBefore" ? `Tomorrow: ${title}` : `Starting soon: ${title}`,
+            body: location ? `${when} at ${location}` : when,
+          },
+          { activityId: doc.id, type: `reminder_${kind}` }
+        );
+        sent += uids.length;
+      }
+    }
+  }
+
+  console.log(`sendActivityReminders: reminded ${sent} participant(s)`);
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 28) Edit notifications: diff host edits, tell participants, keep history
+//
+// updateActivity writes fields directly, so this trigger compares the
+// fields people plan around. Each change becomes a "Time changed from X to
+// Y" system message (with the raw values under `edit` for clients). It is
+// also pushed to participants and appended to activities/{id}/edits.
+// The editor is the signed-in user behind the write (trigger auth context),
+// never a client-supplied field. The date a poll locks in is announced by
+// lockActivityDate instead.
+// ────────────────────────────────────────────────────────────────────────────
+const TRACKED_EDIT_FIELDS = ["title", "dateTime", "location", "maxParticipants", "description"] as const;
+type TrackedEditField = (typeof TRACKED_EDIT_FIELDS)[number];
+
+interface ActivityChange {
+  field: TrackedEditField;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+// Comparable form of a tracked field; times are millis
+function editValue(activity: FirebaseFirestore.DocumentData, field: TrackedEditField): string | number | null {
+  const value = activity[field];
+  if (field === "dateTime") return toTimestamp(value)?.toMillis() ?? null;
+  if (field === "maxParticipants") return typeof value === "number" && value > 0 ? value : null;
+  return typeof value === "string" ? value.trim() : null;
+}
+
+function describeChange(change: ActivityChange, timeZone?: string): string {
+  switch (change.field) {
+    case "dateTime": {
+      const when = (ms: string | number | null) => (typeof ms === "number" ? formatActivityWhen(new Date(ms), timeZone) : "unset");
+      return `Time changed from ${when(change.from)} to ${when(change.to)}`;
+    }
+    case "location":
+      return `Location changed from ${change.from || "unset"} to ${change.to || "unset"}`;
+    case "title":
+      return `Title changed from "${change.from}" to "${change.to}"`;
+    case "maxParticipants":
+      return `Capacity changed from ${change.from ?? "unlimited"} to ${change.to ?? "unlimited"}`;
+    case "description":
+      return "Description updated";
+  }
+}
+
+// "All future occurrences" edits update every occurrence at once, firing this
+// trigger per occurrence. Those writes share a signature (same fields, values
+// and time shift), so each person gets one push per series edit, not one per
+// occurrence. Notices expire through a TTL policy on expiresAt.
+const SERIES_EDIT_NOTICE_WINDOW_MS = 10 * 60 * 1000;
+
+function seriesEditSignature(changes: ActivityChange[], editorId?: string): string {
+  const parts = changes.map((change) =>
+    change.field === "dateTime" && typeof change.from === "number" && typeof change.to === "number"
+      ? `dateTime:${change.to - change.from}`
+      : `${change.field}:${JSON.stringify([change.from, change.to])}`
+  );
+  return createHash("sha256").update([editorId ?? "", ...parts].join("\n")).digest("hex").slice(0, 32);
+}
+
+// Recipients not yet pushed about this series edit; claims them in the same step
+async function claimSeriesEditRecipients(seriesId: string, signature: string, recipients: string[]): Promise<string[]> {
+  const noticeRef = db.doc(`seriesEditNotices/${seriesId}_${signature}`);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(noticeRef);
+    const createdAt = snap.exists ? toTimestamp(snap.get("createdAt")) : null;
+    const fresh = !!createdAt && Date.now() - createdAt.toMillis() < SERIES_EDIT_NOTICE_WINDOW_MS;
+    const notified = new Set<string>(fresh ? (snap.get("notified") as string[]) || [] : []);
+    const claimed = recipients.filter((uid) => !notified.has(uid));
+    const since = fresh ? createdAt! : Timestamp.now();
+    tx.set(noticeRef, {
+      seriesId,
+      notified: [...notified, ...claimed],
+      createdAt: since,
+      expiresAt: Timestamp.fromMillis(since.toMillis() + SERIES_EDIT_NOTICE_WINDOW_MS),
+    });
+    return claimed;
+  });
+}
+
+export const onActivityDetailsChanged = onDocumentUpdatedWithAuthContext("activities/{activityId}", async (event) => {
+  const { activityId } = event.params;
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+  if (!before || !after || after.archived === true) return;
+
+  const changes: ActivityChange[] = TRACKED_EDIT_FIELDS
+    .filter((field) => !(field === "dateTime" && before.status === "scheduling"))
+    .map((field) => ({ field, from: editValue(before, field), to: editValue(after, field) }))
+    .filter((change) => change.from !== change.to);
+  if (changes.length === 0) return;
+
+  // authId is the signed-in user for client writes; anything else (our own
+  // functions, console edits) isn't a host and is attributed to "the host"
+  const editorId = event.authId && isActivityHost(before, event.authId) ? event.authId : undefined;
+  const editorSnap = editorId ? await db.doc(`userProfiles/${editorId}`).get() : null;
+  const editorName = (editorSnap?.data()?.displayName as string) || "The host";
+  // Chat text is shared, so it uses the editor's clock; `edit` keeps the raw values
+  const timeZone = editorSnap?.data()?.timeZone as string | undefined;
+  const lines = changes.map((change) => describeChange(change, timeZone));
+
+  // Keyed by the event so a redelivered trigger stops here instead of
+  // repeating the chat messages and pushes
+  try {
+    await db.doc(`activities/${activityId}/edits/${event.id}`).create({
+      changes,
+      editedBy: editorId ?? null,
+      editedByName: editorName,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  } catch (err) {
+    if (isAlreadyExistsError(err)) return;
+    throw err;
+  }
+
+  try {
+    const messagesRef = rtdb.ref(`chat-messages/${activityId}`);
+    await Promise.all(
+      changes.map((change, i) =>
+        messagesRef.push({
+          senderId: "system",
+          senderName: "System",
+          text: `${editorName}: ${lines[i]}`,
+          timestamp: Date.now(),
+          type: "system",
+          edit: change,
+        })
+      )
+    );
+  } catch (err) {
+    console.error(`❌ Failed to post edit messages for ${activityId}:`, err);
+  }
+
+  if (after.status !== "cancelled") {
+    const participants = ((after.participantIds as string[]) || []).filter((uid) => uid !== editorId);
+    const recipients = typeof after.seriesId === "string" && participants.length > 0
+      ? await claimSeriesEditRecipients(after.seriesId, seriesEditSignature(changes, editorId), participants)
+      : participants;
+    const profiles = recipients.length > 0 ? await db.getAll(...recipients.map((uid) => db.doc(`userProfiles/${uid}`))) : [];
+
+    // Pushes are personal, so times are written in each recipient's own zone
+    const byTimeZone = new Map<string, string[]>();
+    for (const profile of profiles) {
+      const zone = profile.get("timeZone");
+      const key = typeof zone === "string" ? zone : "";
+      byTimeZone.set(key, [...(byTimeZone.get(key) || []), profile.id]);
+    }
+
+    const title = (after.title as string) || "An activity";
+    for (const [recipientZone, uids] of byTimeZone) {
+      await sendPushToUsers(
+        uids,
+        { title: `Updated: ${title}`, body: changes.map((change) => describeChange(change, recipientZone || undefined)).join(". ") },
+        { activityId, type: "activity_updated" }
+      );
+    }
+  }
+  console.log(`onActivityDetailsChanged: ${activityId} ${changes.map((c) => c.field).join(", ")} changed by ${editorId ?? "unknown"}`);
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// ── 29) Cover cleanup: delete a replaced cover's Storage folder
+//
+// uploadActivityCover writes every cover to its own activity_covers/... folder.
+// Series occurrences, duplicates, templates and drafts copy coverImage as-is,
+// so the old folder is only removed once nothing points at it any more.
+// ────────────────────────────────────────────────────────────────────────────
+async function isCoverReferenced(path: string): Promise<boolean> {
+  const snaps = await Promise.all([
+    db.collection("activities").where("coverImage.path", "==", path).limit(1).get(),
+    db.collectionGroup("activityTemplates").where("coverImage.path", "==", path).limit(1).get(),
+    db.collectionGroup("activityDrafts").where("coverImage.path", "==", path).limit(1).get(),
+  ]);
+  return snaps.some((snap) => !snap.empty);
+}
+
+export const onActivityCoverReplaced = onDocumentUpdated("activities/{activityId}", async (event) => {
+  const oldPath = event.data?.before?.data()?.coverImage?.path;
+  const newPath = event.data?.after?.data()?.coverImage?.path;
+  if (typeof oldPath !== "string" || oldPath === newPath) return;
+  // Only ever touch a single upload folder, whatever the document claims
+  if (!/^activity_covers\/[^/]+\/[^/]+$/.test(oldPath)) return;
+  if (await isCoverReferenced(oldPath)) return;
+
+  await getStorage().bucket().deleteFiles({ prefix: `${oldPath}/` });
+  console.log(`🗑️ Deleted replaced cover ${oldPath} of ${event.params.activityId}`);
+});